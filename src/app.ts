@@ -1,4 +1,4 @@
-import express, { Application } from "express";
+import express, { Application, Request } from "express";
 import helmet from "helmet";
 import cors from "cors";
 import rateLimit from "express-rate-limit";
@@ -13,12 +13,19 @@ import { sanitizeInput } from "./middlewares/sanitizeMiddleware";
 import categoryRoutes from "./routes/categoryRoutes";
 import tagRoutes from "./routes/tagRoutes";
 import blogRoutes from "./routes/blogRoutes";
+import feedRoutes from "./routes/feedRoutes";
+import sitemapRoutes from "./routes/sitemapRoutes";
+import adminRoutes from "./routes/adminRoutes";
+import userRoutes from "./routes/userRoutes";
+import commentRoutes from "./routes/commentRoutes";
+import mediaRoutes from "./routes/mediaRoutes";
 
 const app: Application = express();
+app.set("trust proxy", env.TRUST_PROXY);
 
 // Security Middlewares
 app.use(helmet());
-app.use(cors({ origin: env.CLIENT_URL || "http://localhost:3000" }));
+app.use(cors({ origin: env.CLIENT_URL || "http://localhost:3000", credentials: true })); // credentials: refresh token cookie
 app.use(
   rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
@@ -33,14 +40,33 @@ app.use(xss()); // Replaced xss-clean with express-xss-sanitizer
 app.use(express.json({ limit: "10kb" }));
 app.use(express.urlencoded({ extended: true }));
 
-// Logger
+// Logger. Preview and invite links carry their secret in the path, so it is masked in the access log.
+morgan.token<Request>("url", (req) => req.originalUrl.replace(/(\/(?:preview|invites)\/)[^/?#]+/g, "$1[redacted]"));
 app.use(morgan("combined", { stream: { write: (msg) => logger.info(msg.trim()) } }));
 
+// Uploaded media, when stored on the local disk and not served from elsewhere (e.g. a CDN)
+if (env.MEDIA_STORAGE === "local" && env.MEDIA_PUBLIC_URL.startsWith("/")) {
+  app.use(
+    env.MEDIA_PUBLIC_URL,
+    express.static(env.MEDIA_LOCAL_DIR, {
+      index: false,
+      // Images are embedded by the client app on another origin
+      setHeaders: (res) => res.setHeader("Cross-Origin-Resource-Policy", "cross-origin"),
+    })
+  );
+}
+
 // Routes
 app.use("/api/auth", authRoutes);
 app.use("/api/categories", categoryRoutes);
 app.use("/api/tags", tagRoutes);
 app.use("/api/blogs", blogRoutes);
+app.use("/api/admin", adminRoutes);
+app.use("/api/users", userRoutes);
+app.use("/api/comments", commentRoutes);
+app.use("/api/media", mediaRoutes);
+app.use("/feeds", feedRoutes);
+app.use(sitemapRoutes);
 app.get("/health", (req, res) => {
   res.status(200).json({ status: "ok" });
 });
@@ -0,0 +1,47 @@
+import slugify from "slugify";
+import { User } from "../models";
+import { logger } from "../utils/logger";
+import { normalizeEmail } from "../utils/accounts";
+import env from "./env";
+
+// Seed the first admin from ADMIN_EMAIL / ADMIN_HASHED_PASSWORD when no admin account exists yet
+const seedAdminUser = async () => {
+  if (await User.exists({ role: "admin" })) return;
+
+  if (!env.ADMIN_EMAIL || !env.ADMIN_HASHED_PASSWORD) {
+    logger.warn("No admin account exists and ADMIN_EMAIL/ADMIN_HASHED_PASSWORD are not set");
+    return;
+  }
+
+  const email = normalizeEmail(env.ADMIN_EMAIL);
+
+  // An existing account with the admin email is promoted rather than duplicated
+  const existing = await User.findOne({ email });
+  if (existing) {
+    existing.role = "admin";
+    existing.status = "active";
+    existing.updatedAt = new Date().toISOString();
+    await existing.save();
+    logger.info(`Promoted existing user to admin: ${email}`);
+    return;
+  }
+
+  const base = slugify(email.split("@")[0] ?? "admin", { lower: true, strict: true }) || "admin";
+  let username = base;
+  for (let n = 2; await User.exists({ username }); n++) {
+    username = `${base}-${n}`;
+  }
+
+  await User.create({
+    email,
+    passwordHash: env.ADMIN_HASHED_PASSWORD,
+    name: "Admin",
+    username,
+    role: "admin",
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  });
+  logger.info(`Seeded admin account: ${email}`);
+};
+
+export { seedAdminUser };
@@ -6,14 +6,45 @@ dotenv.config();
 const envSchema = z.object({
   NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
   PORT: z.string().default("5000"),
-  MONGO_URI: z.string().min(1, "MONGO_URI is required"),
+  MONGO_URI: z.string().min(1, "MONGO_URI is required"), // A replica set (one node will do): writes use transactions
   REDIS_URL: z.string().default("redis://localhost:6379"),
   JWT_SECRET: z.string().min(1, "JWT_SECRET is required"),
   JWT_EXPIRES_IN: z.string().default("15m"), // Short-lived access token
   REFRESH_EXPIRES_IN: z.string().default("7d"), // Long-lived refresh token
-  ADMIN_EMAIL: z.string().email().min(1, "ADMIN_EMAIL is required"),
-  ADMIN_HASHED_PASSWORD: z.string().min(1, "ADMIN_HASHED_PASSWORD is required"),
+  ADMIN_EMAIL: z.string().email().optional(), // Seeds the first admin account when none exists
+  ADMIN_HASHED_PASSWORD: z.string().min(1).optional(), // bcrypt hash for the seeded admin
+  LOGIN_MAX_ACCOUNT_FAILURES: z.coerce.number().int().positive().default(5), // Failures before an account is locked
+  LOGIN_MAX_IP_FAILURES: z.coerce.number().int().positive().default(20), // Failures before an IP is locked
+  LOGIN_FAILURE_WINDOW_MINUTES: z.coerce.number().int().positive().default(15), // Window in which failures accumulate
+  LOGIN_LOCKOUT_MINUTES: z.coerce.number().int().positive().default(15), // Duration of a temporary lockout
+  INVITE_TTL_HOURS: z.coerce.number().int().positive().default(72), // Lifetime of an account invite link
+  PASSWORD_RESET_TTL_MINUTES: z.coerce.number().int().positive().default(60), // Lifetime of a password reset link
+  PREVIEW_TTL_HOURS: z.coerce.number().int().positive().default(72), // Default lifetime of a draft preview link
+  PREVIEW_MAX_TTL_HOURS: z.coerce.number().int().positive().default(720), // Longest lifetime an editor may request
+  // Reverse proxies whose X-Forwarded-For is believed, so req.ip (login throttling, rate limits) is the client's:
+  // a hop count, or addresses/subnets such as "loopback" or "10.0.0.0/8". Unset trusts none.
+  TRUST_PROXY: z
+    .string()
+    .default("false")
+    .transform((val) => (/^\d+$/.test(val) ? Number(val) : val === "true" ? true : val === "false" ? false : val)),
   CLIENT_URL: z.string().default("http://localhost:3000"),
+  SITE_URL: z.string().url().default("http://localhost:3000"), // Public site base used in feeds and sitemaps
+  SITE_NAME: z.string().default("Blog"),
+  SITE_DESCRIPTION: z.string().default(""),
+  READING_WPM: z.coerce.number().int().positive().default(200), // Words per minute for reading time
+  READING_CJK_CPM: z.coerce.number().int().positive().default(500), // CJK characters per minute for reading time
+  CACHE_TTL_LIST_SECONDS: z.coerce.number().int().positive().default(60), // Cached public list responses
+  CACHE_TTL_DETAIL_SECONDS: z.coerce.number().int().positive().default(300), // Cached public detail responses
+  COMMENT_RATE_LIMIT_MAX: z.coerce.number().int().positive().default(5), // Comments per IP per window
+  COMMENT_RATE_LIMIT_WINDOW_MINUTES: z.coerce.number().int().positive().default(10),
+  SEARCH_ENGINE: z.enum(["mongo"]).default("mongo"), // Search index implementation
+  MEDIA_STORAGE: z.enum(["local"]).default("local"), // Storage driver for uploaded media
+  MEDIA_LOCAL_DIR: z.string().default("uploads"), // Directory the local driver writes to
+  MEDIA_PUBLIC_URL: z.string().default("/media"), // URL prefix uploaded files are served from
+  MEDIA_MAX_UPLOAD_MB: z.coerce.number().positive().default(10), // Largest accepted upload
+  VIEW_DEDUP_WINDOW_MINUTES: z.coerce.number().int().positive().default(30), // Repeat views by a visitor count once
+  VIEW_FLUSH_INTERVAL_MS: z.coerce.number().int().positive().default(60000), // How often view counts reach MongoDB
+  SCHEDULER_INTERVAL_MS: z.coerce.number().int().positive().default(15000), // Scheduled publishing poll interval
 });
 
 const env = envSchema.parse(process.env);
@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { USER_ROLES } from "../models";
+import { logger } from "../utils/logger";
+import { flushCache } from "../utils/responseCache";
+import { getSearchIndex } from "../search";
+import { getTwoFactorRequiredRoles, setTwoFactorRequiredRoles } from "../utils/twoFactor";
+
+// Zod schemas for validation
+const twoFactorPolicySchema = z.object({
+  requiredRoles: z.array(z.enum(USER_ROLES)),
+});
+
+// Flush every cached public response (Admin only)
+export const flushResponseCache = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const removed = await flushCache();
+
+    logger.info(`Response cache flushed: ${removed} keys removed`);
+    res.status(200).json({
+      success: true,
+      message: "Cache flushed successfully",
+      removed,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Re-index every post, e.g. after switching SEARCH_ENGINE or to repair a failed sync (Admin only)
+export const rebuildSearchIndex = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const index = getSearchIndex();
+    const indexed = await index.rebuild();
+
+    logger.info(`Search index (${index.name}) rebuilt: ${indexed} blogs indexed`);
+    res.status(200).json({
+      success: true,
+      message: "Search index rebuilt successfully",
+      indexed,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Roles that must use two-factor authentication (Admin only)
+export const getTwoFactorPolicy = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const requiredRoles = await getTwoFactorRequiredRoles();
+
+    res.status(200).json({
+      success: true,
+      data: { requiredRoles },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Require two-factor authentication for roles; members without it must enroll at their next login (Admin only)
+export const updateTwoFactorPolicy = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { requiredRoles } = twoFactorPolicySchema.parse(req.body);
+    const saved = await setTwoFactorRequiredRoles(requiredRoles);
+
+    logger.info(`Two-factor policy updated: required for ${saved.join(", ") || "no roles"}`);
+    res.status(200).json({
+      success: true,
+      data: { requiredRoles: saved },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,90 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import mongoose from "mongoose";
+import { BlogPost } from "../models";
+import { AuthRequest } from "../types";
+import CustomError from "../utils/customError";
+import { assertCanViewBlogHistory } from "../utils/permissions";
+import { VIEW_WINDOWS, ViewRanking, ViewWindow, rankBlogsByViews, blogViewSeries } from "../utils/viewStats";
+
+const CANDIDATE_SLACK = 20; // Extra ranked posts fetched in case some were unpublished since they were viewed
+
+// Zod schemas for validation
+const rankedBlogsSchema = z.object({
+  window: z.enum(Object.keys(VIEW_WINDOWS) as [ViewWindow, ...ViewWindow[]]).default("7d"),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+const viewSeriesSchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+// Published posts ranked by views in a window, each with its view count for that window
+const sendRankedBlogs = async (req: Request, res: Response, ranking: ViewRanking) => {
+  const { window, limit } = rankedBlogsSchema.parse(req.query);
+
+  const ranked = (await rankBlogsByViews(window, ranking)).slice(0, limit + CANDIDATE_SLACK);
+  const blogs = await BlogPost.find({ _id: { $in: ranked.map(({ blogId }) => blogId) }, status: "published" })
+    .select("-content -toc") // Exclude content
+    .populate("categories", "name slug")
+    .populate("tags", "name slug");
+
+  // Restore the ranking order lost by the $in query
+  const data = ranked
+    .flatMap(({ blogId, views }) => {
+      const blog = blogs.find((candidate) => String(candidate._id) === String(blogId));
+      return blog ? [{ ...blog.toObject(), views }] : [];
+    })
+    .slice(0, limit);
+
+  res.status(200).json({
+    success: true,
+    data,
+    window,
+  });
+};
+
+// Most viewed posts over the last 1, 7 or 30 days (Public)
+export const getPopularBlogs = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await sendRankedBlogs(req, res, "popular");
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Posts gaining views, weighting recent days over older ones in the window (Public)
+export const getTrendingBlogs = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await sendRankedBlogs(req, res, "trending");
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Daily views of a post for the dashboard; counts still pending in Redis appear after the next flush
+// (Editors and the post's author)
+export const getBlogViews = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { days } = viewSeriesSchema.parse(req.query);
+    const blog = mongoose.isValidObjectId(req.params.id) ? await BlogPost.findById(req.params.id) : null;
+    if (!blog) {
+      throw new CustomError("Blog not found", { statusCode: 404 });
+    }
+    assertCanViewBlogHistory(req.user, blog);
+
+    const series = await blogViewSeries(blog._id as mongoose.Types.ObjectId, days);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        blogId: blog._id,
+        totalViews: blog.viewCount,
+        periodViews: series.reduce((sum, day) => sum + day.views, 0),
+        series,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,43 +1,98 @@
 import { Request, Response, NextFunction } from "express";
 import bcrypt from "bcrypt";
-import jwt, { SignOptions } from "jsonwebtoken";
-import { v4 as uuidv4 } from "uuid";
 import { z } from "zod";
-import validator from "validator";
-import { redisClient } from "../config/redis";
 import env from "../config/env";
+import { User } from "../models";
+import { AuthRequest } from "../types";
 import { logger } from "../utils/logger";
 import CustomError from "../utils/customError";
+import {
+  generateAccessToken,
+  issueTokenPair,
+  rotateRefreshToken,
+  findRefreshTokenSession,
+  listSessions,
+  revokeSession,
+  revokeAllSessions,
+} from "../utils/authTokens";
+import { readRefreshCookie, clearRefreshCookie, sendTokens } from "../utils/authCookies";
+import { checkLoginAllowed, recordLoginFailure, clearAccountFailures } from "../utils/loginThrottle";
+import { issueToken, peekToken, consumeToken } from "../utils/oneTimeTokens";
+import {
+  normalizeEmail,
+  hashPassword,
+  createPasswordResetLink,
+  InvitePayload,
+  PasswordResetPayload,
+  sessionContext,
+  completeLogin,
+} from "../utils/accounts";
+import { isTwoFactorRequired } from "../utils/twoFactor";
 
-const JWT_SECRET = env.JWT_SECRET as string;
+const TWO_FACTOR_TOKEN_TTL = 5 * 60; // Seconds to finish the second login step
 
 // Zod schemas for validation
+const passwordSchema = z.string().min(8, "Password must be at least 8 characters");
+
+const tokenDeliverySchema = z.enum(["body", "cookie"]).default("body"); // cookie: refresh token in an httpOnly cookie
+
 const loginSchema = z.object({
   email: z.string().email("Invalid email format"),
-  password: z.string().min(8, "Password must be at least 8 characters"),
+  password: passwordSchema,
+  tokenDelivery: tokenDeliverySchema,
 });
 
 const refreshSchema = z.object({
   refreshToken: z.string().min(1, "Refresh token is required"),
 });
 
-const ADMIN_ID = "admin"; // Fixed ID for the single admin user
-const REFRESH_KEY = `refresh:${ADMIN_ID}`; // Redis key for refresh token
+const sessionIdSchema = z.string().uuid("Invalid session ID");
 
-// Helper to generate access token
-const generateAccessToken = (user: { id: string; email: string }) => {
-  const options: SignOptions = {
-    expiresIn: "1d",
-  };
-  return jwt.sign(user, JWT_SECRET, options);
-};
+const profileSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  avatarUrl: z.string().optional(),
+  bio: z.string().optional(),
+  social: z
+    .object({
+      twitter: z.string().optional(),
+      github: z.string().optional(),
+      linkedin: z.string().optional(),
+      website: z.string().optional(),
+    })
+    .optional(),
+});
 
-// Helper to generate refresh token
-const generateRefreshToken = () => uuidv4();
+const acceptInviteSchema = profileSchema.extend({
+  token: z.string().min(1, "Invite token is required"),
+  username: z
+    .string()
+    .min(3, "Username must be at least 3 characters")
+    .max(30, "Username must be at most 30 characters")
+    .regex(/^[a-z0-9_-]+$/i, "Username may only contain letters, numbers, underscores and hyphens"),
+  password: passwordSchema,
+  tokenDelivery: tokenDeliverySchema,
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+});
 
-// Store refresh token in Redis with expiration
-const storeRefreshToken = async (token: string) => {
-  await redisClient.set(REFRESH_KEY, token, { EX: 60 * 60 * 24 * 7 }); // 7 days in seconds
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email format"),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  newPassword: passwordSchema,
+});
+
+// Refresh token from the JSON body, falling back to the httpOnly cookie
+const readRefreshToken = (req: Request) => {
+  if (req.body?.refreshToken !== undefined) {
+    return { ...refreshSchema.parse(req.body), delivery: "body" as const };
+  }
+  return { ...refreshSchema.parse({ refreshToken: readRefreshCookie(req) }), delivery: "cookie" as const };
 };
 
 // Login controller
@@ -48,103 +103,403 @@ export const login = async (
 ) => {
   try {
     // Validate input
-    const { email, password } = loginSchema.parse(req.body);
+    const { email, password, tokenDelivery } = loginSchema.parse(req.body);
+    const sanitizedEmail = normalizeEmail(email);
+    const attempt = { email: sanitizedEmail, ip: req.ip ?? "unknown" };
 
-    // Sanitize email
-    const sanitizedEmail = validator.normalizeEmail(email);
-    if (!sanitizedEmail) {
-      throw new CustomError("Invalid email", { statusCode: 400 });
+    // Refuse locked accounts and IPs (and slow down after recent failures)
+    const lockout = await checkLoginAllowed(attempt);
+    if (lockout) {
+      res.set("Retry-After", String(lockout.retryAfterSeconds));
+      throw new CustomError("Too many failed login attempts, try again later", { statusCode: 429, details: lockout });
     }
 
     // Check credentials
-    if (sanitizedEmail !== env.ADMIN_EMAIL) {
-      throw new CustomError("Invalid credentials", { statusCode: 401 });
+    const user = await User.findOne({ email: sanitizedEmail }).select("+passwordHash");
+    if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+      const status = await recordLoginFailure(attempt);
+      logger.info(`Failed login for ${sanitizedEmail} from ${attempt.ip}`);
+      if (status.locked) res.set("Retry-After", String(status.retryAfterSeconds));
+      throw new CustomError("Invalid credentials", { statusCode: status.locked ? 429 : 401, details: status });
+    }
+    if (user.status !== "active") {
+      throw new CustomError("Account is disabled", { statusCode: 403 });
     }
 
-    const isMatch = await bcrypt.compare(password, env.ADMIN_HASHED_PASSWORD);
-    if (!isMatch) {
-      throw new CustomError("Invalid credentials", { statusCode: 401 });
+    // Second step: a TOTP or recovery code against a short-lived challenge
+    const pendingLogin = { userId: String(user._id), tokenDelivery };
+    if (user.twoFactor?.enabled) {
+      const challengeToken = await issueToken("2fa-challenge", pendingLogin, TWO_FACTOR_TOKEN_TTL);
+      logger.info(`Password accepted, 2FA challenge issued: ${sanitizedEmail}`);
+      res.status(200).json({ success: true, twoFactorRequired: true, challengeToken });
+      return;
     }
 
-    // Generate tokens
-    const user = { id: ADMIN_ID, email: sanitizedEmail };
-    const accessToken = generateAccessToken(user);
-    const refreshToken = generateRefreshToken();
+    // Privileged roles may be required to enroll before they get a session
+    if (await isTwoFactorRequired(user.role)) {
+      const enrollmentToken = await issueToken("2fa-enrollment", pendingLogin, TWO_FACTOR_TOKEN_TTL);
+      logger.info(`Password accepted, 2FA enrollment required: ${sanitizedEmail}`);
+      res.status(200).json({ success: true, twoFactorSetupRequired: true, enrollmentToken });
+      return;
+    }
 
-    // Store refresh token securely in Redis
-    await storeRefreshToken(refreshToken);
+    // Failures are forgiven only once every required factor has passed, so a known password
+    // cannot be used to reset the counter that also limits TOTP guessing
+    await clearAccountFailures(sanitizedEmail);
+    await completeLogin(req, res, user, tokenDelivery);
+  } catch (error) {
+    next(error);
+  }
+};
 
-    logger.info(`Admin logged in: ${sanitizedEmail}`);
+// Refresh token controller
+export const refresh = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    // Validate input
+    const { refreshToken, delivery } = readRefreshToken(req);
 
-    res.status(200).json({
-      success: true,
-      accessToken,
+    // Rotate the refresh token; a replayed token revokes its session
+    const { userId, sessionId, refreshToken: newRefreshToken } = await rotateRefreshToken(
       refreshToken,
-    });
+      sessionContext(req)
+    );
+    const user = await User.findById(userId);
+    if (!user || user.status !== "active") {
+      await revokeSession(userId, sessionId);
+      throw new CustomError("Invalid refresh token", { statusCode: 401 });
+    }
+
+    // Generate a new access token (role and profile changes take effect here)
+    const accessToken = generateAccessToken(user, sessionId);
+
+    logger.info(`Access token refreshed for ${user.email}`);
+
+    sendTokens(res, 200, { accessToken, refreshToken: newRefreshToken }, delivery);
   } catch (error) {
     next(error);
   }
 };
 
-// Refresh token controller
-export const refresh = async (
+// Logout controller
+export const logout = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
     // Validate input
-    const { refreshToken } = refreshSchema.parse(req.body);
+    const { refreshToken } = readRefreshToken(req);
 
-    // Get stored refresh token from Redis
-    const storedToken = await redisClient.get(REFRESH_KEY);
-    if (!storedToken || storedToken !== refreshToken) {
+    // Invalidate the session if the refresh token is current
+    const session = await findRefreshTokenSession(refreshToken);
+    if (!session) {
       throw new CustomError("Invalid refresh token", { statusCode: 401 });
     }
+    await revokeSession(session.userId, session.sessionId);
+    clearRefreshCookie(res);
+    logger.info(`User logged out: ${session.userId} (session ${session.sessionId})`);
 
-    // Generate new tokens
-    const user = { id: ADMIN_ID, email: env.ADMIN_EMAIL };
-    const newAccessToken = generateAccessToken(user);
-    const newRefreshToken = generateRefreshToken();
+    res.status(200).json({
+      success: true,
+      message: "Logged out successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    // Update refresh token in Redis
-    await storeRefreshToken(newRefreshToken);
+// Current user's account and profile
+export const getMe = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const user = await User.findById(req.user!.id);
+    if (!user) {
+      throw new CustomError("User not found", { statusCode: 404 });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Update the current user's display profile
+export const updateMe = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const updates = profileSchema.partial().parse(req.body);
+
+    const user = await User.findById(req.user!.id);
+    if (!user) {
+      throw new CustomError("User not found", { statusCode: 404 });
+    }
 
-    logger.info("Access token refreshed");
+    user.set({ ...updates, updatedAt: new Date().toISOString() });
+    await user.save();
 
+    logger.info(`Profile updated: ${user.email}`);
     res.status(200).json({
       success: true,
-      accessToken: newAccessToken,
-      refreshToken: newRefreshToken,
+      data: user,
     });
   } catch (error) {
     next(error);
   }
 };
 
-// Logout controller
-export const logout = async (
+// Change password (requires the current password); ends every other session
+export const changePassword = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+
+    const user = await User.findById(req.user!.id).select("+passwordHash");
+    if (!user || !(await bcrypt.compare(currentPassword, user.passwordHash))) {
+      throw new CustomError("Current password is incorrect", { statusCode: 401 });
+    }
+
+    user.passwordHash = await hashPassword(newPassword);
+    user.passwordChangedAt = new Date().toISOString();
+    user.updatedAt = user.passwordChangedAt;
+    await user.save();
+    await revokeAllSessions(String(user._id), req.user!.sessionId);
+
+    logger.info(`Password changed: ${user.email}`);
+    res.status(200).json({
+      success: true,
+      message: "Password changed successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Request a password reset link. Always succeeds so accounts cannot be enumerated.
+export const forgotPassword = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    // Validate input
-    const { refreshToken } = refreshSchema.parse(req.body);
+    const { email } = forgotPasswordSchema.parse(req.body);
+    const sanitizedEmail = normalizeEmail(email);
 
-    // Check if refresh token matches stored one
-    const storedToken = await redisClient.get(REFRESH_KEY);
-    if (storedToken && storedToken === refreshToken) {
-      // Invalidate by deleting from Redis
-      await redisClient.del(REFRESH_KEY);
-      logger.info("Admin logged out");
-    }else{
-        throw new CustomError("Invalid refresh token", { statusCode: 401 });
+    const user = await User.findOne({ email: sanitizedEmail, status: "active" });
+    if (user) {
+      const link = await createPasswordResetLink(user);
+      logger.info(`Password reset requested: ${sanitizedEmail}`);
+      // No mail transport is configured; outside production the link is logged for local testing
+      if (env.NODE_ENV !== "production") {
+        logger.debug(`Password reset link for ${sanitizedEmail}: ${link.url}`);
+      }
     }
 
     res.status(200).json({
       success: true,
-      message: "Logged out successfully",
+      message: "If the account exists, a password reset link has been sent",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Set a new password using a single-use reset token
+export const resetPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token, newPassword } = resetPasswordSchema.parse(req.body);
+
+    const payload = await consumeToken<PasswordResetPayload>("password-reset", token);
+    const user = payload ? await User.findById(payload.userId) : null;
+    if (!payload || !user || user.status !== "active" || (user.passwordChangedAt ?? null) !== payload.passwordChangedAt) {
+      throw new CustomError("Invalid or expired reset token", { statusCode: 400 });
+    }
+
+    user.passwordHash = await hashPassword(newPassword);
+    user.passwordChangedAt = new Date().toISOString();
+    user.updatedAt = user.passwordChangedAt;
+    await user.save();
+    await revokeAllSessions(String(user._id));
+
+    logger.info(`Password reset: ${user.email}`);
+    res.status(200).json({
+      success: true,
+      message: "Password reset successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Look up an invite so the signup form can show the invited email and role
+export const getInvite = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const invite = await peekToken<InvitePayload>("invite", req.params.token ?? "");
+    if (!invite) {
+      throw new CustomError("Invalid or expired invite", { statusCode: 404 });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { email: invite.email, role: invite.role },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Create an account from a single-use invite
+export const acceptInvite = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token, username, password, tokenDelivery, ...profile } = acceptInviteSchema.parse(req.body);
+
+    // Check the username before redeeming so a taken name does not burn the invite
+    if (await User.exists({ username })) {
+      throw new CustomError("Username is already taken", { statusCode: 400 });
+    }
+
+    const invite = await consumeToken<InvitePayload>("invite", token);
+    if (!invite) {
+      throw new CustomError("Invalid or expired invite", { statusCode: 400 });
+    }
+    if (await User.exists({ email: invite.email })) {
+      throw new CustomError("An account with this email already exists", { statusCode: 400 });
+    }
+
+    const user = await User.create({
+      ...profile,
+      email: invite.email,
+      username,
+      passwordHash: await hashPassword(password),
+      role: invite.role,
+      invitedBy: invite.invitedBy,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    logger.info(`Invite accepted: ${user.email} (${user.role})`);
+
+    // Roles that require 2FA enroll before their first session
+    if (await isTwoFactorRequired(user.role)) {
+      const pendingLogin = { userId: String(user._id), tokenDelivery };
+      const enrollmentToken = await issueToken("2fa-enrollment", pendingLogin, TWO_FACTOR_TOKEN_TTL);
+      res.status(201).json({ success: true, data: user, twoFactorSetupRequired: true, enrollmentToken });
+      return;
+    }
+
+    const tokens = await issueTokenPair(user, sessionContext(req));
+    sendTokens(res, 201, tokens, tokenDelivery, { data: user });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List the current user's active sessions (devices)
+export const getSessions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const sessions = await listSessions(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: sessions.map(({ userId, ...session }) => ({ ...session, current: session.id === req.user!.sessionId })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Revoke one of the current user's sessions
+export const deleteSession = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const sessionId = sessionIdSchema.parse(req.params.sessionId);
+
+    const sessions = await listSessions(req.user!.id);
+    if (!sessions.some((session) => session.id === sessionId)) {
+      throw new CustomError("Session not found", { statusCode: 404 });
+    }
+    await revokeSession(req.user!.id, sessionId);
+    if (sessionId === req.user!.sessionId) clearRefreshCookie(res);
+
+    logger.info(`Session revoked: ${sessionId}`);
+    res.status(200).json({
+      success: true,
+      message: "Session revoked successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Revoke every session of the current user, including this one
+export const deleteAllSessions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const revoked = await revokeAllSessions(req.user!.id);
+    clearRefreshCookie(res);
+
+    logger.info(`Revoked all ${revoked} sessions for user ${req.user!.id}`);
+    res.status(200).json({
+      success: true,
+      message: "All sessions revoked successfully",
+      revoked,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Revoke every session of the current user except this one
+export const deleteOtherSessions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const revoked = await revokeAllSessions(req.user!.id, req.user!.sessionId);
+
+    logger.info(`Revoked ${revoked} other sessions for user ${req.user!.id}`);
+    res.status(200).json({
+      success: true,
+      message: "Other sessions revoked successfully",
+      revoked,
     });
   } catch (error) {
     next(error);
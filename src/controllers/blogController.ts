@@ -1,34 +1,52 @@
 import { Request, Response, NextFunction } from "express";
 import { z } from "zod";
-import slugify from "slugify";
-import mongoose from "mongoose";
-import { BlogPost, Category, Tag } from "../models";
+import mongoose, { FilterQuery } from "mongoose";
+import { BlogPost, Category, Tag, BlogRevision, Comment, User, BlogView, IBlogPost, IMetadata } from "../models";
+import { AuthRequest } from "../types";
 import CustomError from "../utils/customError";
 import { logger } from "../utils/logger";
+import { validateLexicalDocument } from "../utils/lexicalValidator";
+import { renderLexicalToHtml } from "../utils/lexicalRenderer";
+import { markdownToLexical, lexicalToMarkdown } from "../utils/markdown";
+import { applyDerivedMetadata } from "../utils/contentMetadata";
+import { syncBlogSchedule, cancelBlogSchedule } from "../jobs/publishScheduler";
+import { invalidateSitemaps } from "../utils/sitemap";
+import { invalidateCache } from "../utils/responseCache";
+import { parseFrontMatter, serializeFrontMatter, FrontMatterValue } from "../utils/frontMatter";
+import { saveWithRevision, editorFromRequest } from "../utils/revisions";
+import {
+  assertCanEditBlog,
+  assertCanDeleteBlog,
+  assertCanPublishBlog,
+  canViewUnpublishedBlog,
+  hasPermission,
+} from "../utils/permissions";
+import { toAuthorProfile } from "../utils/accounts";
+import { findRelatedBlogIds } from "../utils/relatedPosts";
+import { revokeAllPreviewTokens } from "../utils/previewTokens";
+import {
+  toSlug,
+  customSlugSchema,
+  applySlugUpdate,
+  isSlugTaken,
+  findByPreviousSlug,
+  sendSlugRedirect,
+} from "../utils/slugs";
+import { extractKeywords } from "../utils/keywords";
+import { extractDocumentText } from "../utils/lexical";
+import { loadCategoryGraph, descendantIds } from "../utils/categoryTree";
+import { getSearchIndex, syncSearchIndex, removeFromSearchIndex, parseSearchQuery, escapeRegExp } from "../search";
+import { syncMediaReferences } from "../utils/mediaReferences";
+import { SORT_OPTIONS, SortOption, buildCursorFilter, buildSort, encodeCursor } from "../utils/pagination";
+
+const BLOG_STATUSES = ["draft", "scheduled", "published", "archived"] as const;
 
 // Zod schemas for validation
-const authorSchema = z.object({
-  id: z.string().min(1, "Author ID is required"),
-  name: z.string().min(1, "Author name is required"),
-  username: z.string().min(1, "Author username is required"),
-  email: z.string().email().optional(),
-  avatarUrl: z.string().optional(),
-  bio: z.string().optional(),
-  social: z
-    .object({
-      twitter: z.string().optional(),
-      github: z.string().optional(),
-      linkedin: z.string().optional(),
-      website: z.string().optional(),
-    })
-    .optional(),
-});
-
 const blogSchema = z.object({
   title: z.string().min(1, "Title is required"),
-  excerpt: z.string().min(1, "Excerpt is required"),
-  content: z.any().refine((val) => val && val.type === "root", { message: "Invalid content format" }),
-  author: authorSchema,
+  slug: customSlugSchema.optional(), // Pins a custom slug; generated from the title when omitted
+  excerpt: z.string().min(1, "Excerpt cannot be empty").optional(), // Derived from content when omitted
+  content: z.unknown(), // Validated as a Lexical document by validateLexicalDocument
   categories: z
     .array(z.string().refine((val) => mongoose.isValidObjectId(val), { message: "Invalid category ID" }))
     .optional(),
@@ -41,54 +59,274 @@ const blogSchema = z.object({
       coverImage: z.string().optional(),
       ogImage: z.string().optional(),
       canonicalUrl: z.string().optional(),
-      readingTimeMinutes: z.number().optional(),
-      wordCount: z.number().optional(),
       language: z.string().optional(),
+      // readingTimeMinutes and wordCount are derived from content; set them here to override explicitly
+      overrides: z
+        .object({
+          readingTimeMinutes: z.number().int().min(0).optional(),
+          wordCount: z.number().int().min(0).optional(),
+        })
+        .optional(),
     })
     .optional(),
-  status: z.enum(["draft", "published", "archived"]).default("draft"),
+  status: z.enum(BLOG_STATUSES).default("draft"), // scheduled: publishedAt in the future
   publishedAt: z.string().optional(),
+  commentsOpen: z.boolean().optional(),
 });
 
-const updateBlogSchema = blogSchema.partial().omit({ content: true, author: true }); // Content and author not updatable
+// Author is taken from the authenticated user and never updatable; slug null unpins a custom slug
+const updateBlogSchema = blogSchema.partial().extend({
+  slug: customSlugSchema.nullable().optional(),
+});
 
-const searchSchema = z.object({
-  query: z.string().min(1, "Search query is required"),
+const markdownBodySchema = z.object({
+  contentMarkdown: z.string().min(1, "Markdown content is required"),
+});
+
+// Front matter keys that map onto IMetadata fields
+const FRONT_MATTER_METADATA: Record<string, keyof IMetadata> = {
+  metaTitle: "title",
+  description: "description",
+  keywords: "keywords",
+  coverImage: "coverImage",
+  ogImage: "ogImage",
+  canonicalUrl: "canonicalUrl",
+  language: "language",
+};
+
+const getBlogSchema = z.object({
+  format: z.enum(["json", "html"]).default("json"), // html: replace Lexical content with rendered HTML
 });
 
-const searchByTagsSchema = z.object({
-  tagIds: z
+const relatedBlogsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+const suggestedTagsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+});
+
+const objectIdListSchema = (label: string) =>
+  z
     .string()
     .transform((val) => val.split(",").map((id) => id.trim()))
-    .refine((val) => val.every((id) => mongoose.isValidObjectId(id)), { message: "Invalid tag ID" }),
+    .refine((val) => val.every((id) => mongoose.isValidObjectId(id)), { message: `Invalid ${label} ID` });
+
+const dateParamSchema = z
+  .string()
+  .refine((val) => !isNaN(Date.parse(val)), { message: "Invalid date" })
+  .transform((val) => new Date(val).toISOString());
+
+const searchSchema = z.object({
+  query: z.string().trim().min(1, "Search query is required").max(200),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+  tags: objectIdListSchema("tag").optional(),
+  categories: objectIdListSchema("category").optional(),
+  from: dateParamSchema.optional(),
+  to: dateParamSchema.optional(),
+  language: z.string().min(1).optional(),
+});
+
+const listBlogsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(Object.keys(SORT_OPTIONS) as [SortOption, ...SortOption[]]).default("newest"),
+  tags: objectIdListSchema("tag").optional(),
+  categories: objectIdListSchema("category").optional(),
+  match: z.enum(["any", "all"]).default("any"), // any: tags OR categories, all: every tag AND category
+  from: dateParamSchema.optional(),
+  to: dateParamSchema.optional(),
+  language: z.string().min(1).optional(),
 });
 
-const searchByCategoriesSchema = z.object({
-  categoryIds: z
+const adminListBlogsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(Object.keys(SORT_OPTIONS) as [SortOption, ...SortOption[]]).default("updated"),
+  status: z
     .string()
-    .transform((val) => val.split(",").map((id) => id.trim()))
-    .refine((val) => val.every((id) => mongoose.isValidObjectId(id)), { message: "Invalid category ID" }),
+    .transform((val) => val.split(",").map((status) => status.trim()))
+    .pipe(z.array(z.enum(BLOG_STATUSES)))
+    .optional(),
+  author: z.string().min(1).optional(), // Author username
+  tags: objectIdListSchema("tag").optional(),
+  categories: objectIdListSchema("category").optional(),
+  updatedSince: dateParamSchema.optional(),
+  q: z.string().trim().min(1).max(200).optional(), // Substring of the title, excerpt or slug
 });
 
-// Create blog (Admin only)
-export const createBlog = async (req: Request, res: Response, next: NextFunction) => {
+const searchByTagsSchema = listBlogsSchema.extend({
+  tagIds: objectIdListSchema("tag"),
+});
+
+const searchByCategoriesSchema = listBlogsSchema.extend({
+  categoryIds: objectIdListSchema("category"),
+  includeDescendants: z
+    .enum(["0", "1", "true", "false"])
+    .optional()
+    .transform((val) => val === "1" || val === "true"), // Also match posts in subcategories
+});
+
+type ListBlogsQuery = z.infer<typeof listBlogsSchema>;
+
+const toObjectIds = (ids: string[]) => ids.map((id) => new mongoose.Types.ObjectId(id));
+
+// Build the filter conditions shared by all published listings
+const buildListingConditions = (query: ListBlogsQuery) => {
+  const conditions: FilterQuery<IBlogPost>[] = [];
+
+  const taxonomy: FilterQuery<IBlogPost>[] = [];
+  const operator = query.match === "all" ? "$all" : "$in";
+  if (query.tags && query.tags.length > 0) taxonomy.push({ tags: { [operator]: toObjectIds(query.tags) } });
+  if (query.categories && query.categories.length > 0) {
+    taxonomy.push({ categories: { [operator]: toObjectIds(query.categories) } });
+  }
+  if (taxonomy.length > 0) {
+    conditions.push(query.match === "all" ? { $and: taxonomy } : { $or: taxonomy });
+  }
+
+  if (query.from || query.to) {
+    const range: { $gte?: string; $lte?: string } = {};
+    if (query.from) range.$gte = query.from;
+    if (query.to) range.$lte = query.to;
+    conditions.push({ publishedAt: range });
+  }
+
+  if (query.language) conditions.push({ "metadata.language": query.language });
+
+  return conditions;
+};
+
+// Fetch one page of published blogs (exclude content) with cursor pagination
+const findPublishedPage = async (baseFilter: FilterQuery<IBlogPost>, query: ListBlogsQuery) => {
+  const filter: FilterQuery<IBlogPost> = {
+    $and: [{ ...baseFilter, status: "published" }, ...buildListingConditions(query)],
+  };
+
+  const [total, blogs] = await Promise.all([
+    BlogPost.countDocuments(filter),
+    BlogPost.find({ $and: [filter, buildCursorFilter(query.sort, query.cursor)] })
+      .select("-content -toc") // Exclude content
+      .populate("categories", "name slug")
+      .populate("tags", "name slug")
+      .sort(buildSort(query.sort))
+      .limit(query.limit + 1), // Fetch one extra to detect another page
+  ]);
+
+  const hasMore = blogs.length > query.limit;
+  const data = hasMore ? blogs.slice(0, query.limit) : blogs;
+  const last = data[data.length - 1];
+
+  return {
+    data,
+    pagination: {
+      limit: query.limit,
+      total,
+      hasMore,
+      nextCursor: hasMore && last ? encodeCursor(query.sort, last) : null,
+    },
+  };
+};
+
+// A scheduled post needs a publish date in the future
+const assertFuturePublishDate = (publishedAt: string | undefined) => {
+  if (!publishedAt || isNaN(Date.parse(publishedAt)) || Date.parse(publishedAt) <= Date.now()) {
+    throw new CustomError("Scheduled blogs require a future publishedAt", { statusCode: 400 });
+  }
+};
+
+// Resolve category/tag references given as IDs or current or previous slugs to IDs
+const resolveTaxonomyRefs = async (model: typeof Category | typeof Tag, refs: string[], label: string) => {
+  const slugs = refs.filter((ref) => !mongoose.isValidObjectId(ref));
+  const filter = { $or: [{ slug: { $in: slugs } }, { previousSlugs: { $in: slugs } }] };
+  const found: { _id: mongoose.Types.ObjectId; slug: string; previousSlugs: string[] }[] =
+    slugs.length === 0
+      ? []
+      : model === Category
+        ? await Category.find(filter).select("slug previousSlugs")
+        : await Tag.find(filter).select("slug previousSlugs");
+  const findBySlug = (slug: string) =>
+    found.find((doc) => doc.slug === slug) ?? found.find((doc) => doc.previousSlugs.includes(slug));
+
+  const missing = slugs.filter((slug) => !findBySlug(slug));
+  if (missing.length > 0) {
+    throw new CustomError(`${label} not found: ${missing.join(", ")}`, { statusCode: 400 });
+  }
+
+  return refs.map((ref) => (mongoose.isValidObjectId(ref) ? ref : String(findBySlug(ref)!._id)));
+};
+
+// Expand a Markdown body with front matter into a create payload; explicit body fields win
+const expandMarkdownBody = async (body: Record<string, any>) => {
+  const { contentMarkdown: rawMarkdown, ...fields } = body;
+  if (fields.content !== undefined) {
+    throw new CustomError("Provide either content or contentMarkdown, not both", { statusCode: 400 });
+  }
+
+  const { contentMarkdown } = markdownBodySchema.parse({ contentMarkdown: rawMarkdown });
+  const { data, body: markdown } = parseFrontMatter(contentMarkdown);
+
+  const scalar = (key: string) => (typeof data[key] === "string" ? (data[key] as string) : undefined);
+  const list = (key: string) => (data[key] === undefined ? undefined : ([] as string[]).concat(data[key]!));
+
+  const metadata: Record<string, FrontMatterValue | undefined> = {};
+  for (const [key, field] of Object.entries(FRONT_MATTER_METADATA)) {
+    if (data[key] !== undefined) metadata[field] = field === "keywords" ? list(key) : scalar(key);
+  }
+
+  const tags = list("tags");
+  const categories = list("categories");
+
+  return {
+    title: scalar("title"),
+    slug: scalar("slug"),
+    excerpt: scalar("excerpt"),
+    status: scalar("status"),
+    publishedAt: scalar("publishedAt"),
+    tags: tags ? await resolveTaxonomyRefs(Tag, tags, "Tag") : undefined,
+    categories: categories ? await resolveTaxonomyRefs(Category, categories, "Category") : undefined,
+    ...fields,
+    metadata: { ...metadata, ...fields.metadata },
+    content: markdownToLexical(markdown),
+  };
+};
+
+// Create blog (blog:create; publishing on create also needs blog:publish)
+export const createBlog = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { title, excerpt, content, author, categories, tags, metadata, status, publishedAt } = blogSchema.parse(
-      req.body
-    );
+    const body = req.body?.contentMarkdown !== undefined ? await expandMarkdownBody(req.body) : req.body;
+    const {
+      title,
+      slug: customSlug,
+      excerpt,
+      content: rawContent,
+      categories,
+      tags,
+      metadata,
+      status,
+      publishedAt,
+      commentsOpen,
+    } = blogSchema.parse(body);
+    const content = validateLexicalDocument(rawContent);
+    if (status === "scheduled") assertFuturePublishDate(publishedAt);
+
+    if (status !== "draft" && !hasPermission(req.user, "blog:publish")) {
+      throw new CustomError("You do not have permission to publish posts", { statusCode: 403 });
+    }
 
-    // Verify author matches authenticated user
-    //if (author.id !== req.user!.id || author.username !== req.user!.username) {
-    //  throw new CustomError("Author details must match authenticated user", { statusCode: 403 });
-    //}
+    // The author is always the authenticated user
+    const user = await User.findById(req.user!.id);
+    if (!user || user.status !== "active") {
+      throw new CustomError("Not authorized", { statusCode: 401 });
+    }
 
-    // Generate slug
-    const slug = slugify(title, { lower: true, strict: true });
+    // Use the custom slug or generate one
+    const slug = customSlug ?? toSlug(title);
 
-    // Check if blog with the same slug exists
-    const existingBlog = await BlogPost.findOne({ slug });
-    if (existingBlog) {
-      throw new CustomError("Blog with this title already exists", { statusCode: 400 });
+    // Check if a blog uses or used the same slug
+    if (await isSlugTaken(BlogPost, slug)) {
+      throw new CustomError(`Blog with this ${customSlug ? "slug" : "title"} already exists`, { statusCode: 400 });
     }
 
     // Verify categories exist
@@ -109,15 +347,16 @@ export const createBlog = async (req: Request, res: Response, next: NextFunction
 
     // Set author with timestamps
     const blogAuthor = {
-      ...author,
+      ...toAuthorProfile(user),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
 
-    const blog = await BlogPost.create({
+    const blog = new BlogPost({
       id: require("uuid").v4(),
       title,
       slug,
+      slugPinned: customSlug !== undefined,
       excerpt,
       content,
       author: blogAuthor,
@@ -125,10 +364,23 @@ export const createBlog = async (req: Request, res: Response, next: NextFunction
       tags: tags || [],
       metadata,
       status,
-      publishedAt: status === "published" ? publishedAt || new Date().toISOString() : undefined,
+      commentsOpen,
+      publishedAt:
+        status === "published"
+          ? publishedAt || new Date().toISOString()
+          : status === "scheduled"
+            ? new Date(publishedAt!).toISOString()
+            : undefined,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     });
+    applyDerivedMetadata(blog);
+    await saveWithRevision(blog, editorFromRequest(req));
+    await syncBlogSchedule(blog);
+    await syncSearchIndex(blog);
+    await syncMediaReferences(blog);
+    await invalidateSitemaps();
+    await invalidateCache(["blogs:list"]);
 
     logger.info(`Blog created: ${title}`);
     res.status(201).json({
@@ -140,24 +392,43 @@ export const createBlog = async (req: Request, res: Response, next: NextFunction
   }
 };
 
-// Update blog (Admin only)
-export const updateBlog = async (req: Request, res: Response, next: NextFunction) => {
+// Update blog (own drafts with blog:edit, any post with blog:edit:any)
+export const updateBlog = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { title, excerpt, categories, tags, metadata, status, publishedAt } = updateBlogSchema.parse(req.body);
+    const {
+      title,
+      slug: customSlug,
+      excerpt,
+      content,
+      categories,
+      tags,
+      metadata,
+      status,
+      publishedAt,
+      commentsOpen,
+    } = updateBlogSchema.parse(req.body);
 
     // Find blog
     const blog = await BlogPost.findById(id);
     if (!blog) {
       throw new CustomError("Blog not found", { statusCode: 404 });
     }
-
-    // Update fields
-    if (title) {
-      blog.title = title;
-      blog.slug = slugify(title, { lower: true, strict: true });
+    assertCanEditBlog(req.user, blog);
+    if (status && status !== "draft" && status !== blog.status) {
+      assertCanPublishBlog(req.user, blog);
     }
+
+    const previousContent = blog.content;
+
+    // Update fields; an old slug stays in the history so its links redirect
+    if (title) blog.title = title;
+    const slugChanged = title || customSlug !== undefined ? applySlugUpdate(blog, blog.title, customSlug) : false;
     if (excerpt) blog.excerpt = excerpt;
+    if (content !== undefined) {
+      blog.content = validateLexicalDocument(content);
+      blog.markModified("content");
+    }
     if (categories) {
       const categoryCount = await Category.countDocuments({ _id: { $in: categories } });
       if (categoryCount !== categories.length) {
@@ -180,27 +451,47 @@ export const updateBlog = async (req: Request, res: Response, next: NextFunction
       if (metadata.coverImage !== undefined) blog.metadata.coverImage = metadata.coverImage;
       if (metadata.ogImage !== undefined) blog.metadata.ogImage = metadata.ogImage;
       if (metadata.canonicalUrl !== undefined) blog.metadata.canonicalUrl = metadata.canonicalUrl;
-      if (metadata.readingTimeMinutes !== undefined) blog.metadata.readingTimeMinutes = metadata.readingTimeMinutes;
-      if (metadata.wordCount !== undefined) blog.metadata.wordCount = metadata.wordCount;
       if (metadata.language !== undefined) blog.metadata.language = metadata.language;
+      if (metadata.overrides !== undefined) {
+        blog.metadata.overrides = {};
+        if (metadata.overrides.readingTimeMinutes !== undefined) {
+          blog.metadata.overrides.readingTimeMinutes = metadata.overrides.readingTimeMinutes;
+        }
+        if (metadata.overrides.wordCount !== undefined) blog.metadata.overrides.wordCount = metadata.overrides.wordCount;
+      }
     }
+    if (commentsOpen !== undefined) blog.commentsOpen = commentsOpen;
+    applyDerivedMetadata(blog, previousContent);
     if (status) {
       blog.status = status;
-      if (status === "published" && !blog.publishedAt) {
+      // Publishing a scheduled post early replaces its future publish date
+      const wasScheduled = blog.publishedAt && Date.parse(blog.publishedAt) > Date.now();
+      if (status === "published" && (!blog.publishedAt || wasScheduled)) {
         blog.publishedAt = publishedAt || new Date().toISOString();
       }
+      if (status === "scheduled") {
+        const scheduledAt = publishedAt ?? blog.publishedAt;
+        assertFuturePublishDate(scheduledAt);
+        blog.publishedAt = new Date(scheduledAt!).toISOString();
+      }
+      if (status !== "published") blog.set("scheduledTransition", undefined);
+    } else if (publishedAt && blog.status === "scheduled") {
+      assertFuturePublishDate(publishedAt);
+      blog.publishedAt = new Date(publishedAt).toISOString();
     }
     blog.updatedAt = new Date().toISOString();
 
-    // Check for duplicate slug
-    if (title) {
-      const existingBlog = await BlogPost.findOne({ slug: blog.slug, _id: { $ne: id } });
-      if (existingBlog) {
-        throw new CustomError("Blog with this title already exists", { statusCode: 400 });
-      }
+    // Check for duplicate slug, including slugs other posts used before
+    if (slugChanged && (await isSlugTaken(BlogPost, blog.slug, blog._id))) {
+      throw new CustomError(`Blog with this ${customSlug ? "slug" : "title"} already exists`, { statusCode: 400 });
     }
 
-    await blog.save();
+    await saveWithRevision(blog, editorFromRequest(req));
+    await syncBlogSchedule(blog);
+    await syncSearchIndex(blog);
+    await syncMediaReferences(blog);
+    await invalidateSitemaps();
+    await invalidateCache(["blogs:list", `blog:${id}`]);
 
     logger.info(`Blog updated: ${blog.title}`);
     res.status(200).json({
@@ -212,16 +503,26 @@ export const updateBlog = async (req: Request, res: Response, next: NextFunction
   }
 };
 
-// Delete blog (Admin only)
-export const deleteBlog = async (req: Request, res: Response, next: NextFunction) => {
+// Delete blog (own drafts with blog:delete, any post with blog:delete:any)
+export const deleteBlog = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
 
     // Find and delete blog
-    const blog = await BlogPost.findByIdAndDelete(id);
+    const blog = await BlogPost.findById(id);
     if (!blog) {
       throw new CustomError("Blog not found", { statusCode: 404 });
     }
+    assertCanDeleteBlog(req.user, blog);
+    await blog.deleteOne();
+    await BlogRevision.deleteMany({ blogId: blog._id });
+    await Comment.deleteMany({ blogId: blog._id });
+    await BlogView.deleteMany({ blogId: blog._id });
+    await cancelBlogSchedule(String(blog._id));
+    await removeFromSearchIndex(String(blog._id));
+    await revokeAllPreviewTokens(String(blog._id));
+    await invalidateSitemaps();
+    await invalidateCache(["blogs:list", `blog:${id}`]);
 
     logger.info(`Blog deleted: ${blog.title}`);
     res.status(200).json({
@@ -233,39 +534,59 @@ export const deleteBlog = async (req: Request, res: Response, next: NextFunction
   }
 };
 
-// Get all blogs (Public, exclude content)
+// Get all blogs (Public, paginated, exclude content)
 export const getAllBlogs = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const blogs = await BlogPost.find({ status: "published" })
-      .select("-content") // Exclude content
-      .populate("categories", "name slug")
-      .populate("tags", "name slug")
-      .sort({ publishedAt: -1 }); // Sort by newest first
+    const query = listBlogsSchema.parse(req.query);
+    const { data, pagination } = await findPublishedPage({}, query);
 
     res.status(200).json({
       success: true,
-      data: blogs,
+      data,
+      pagination,
     });
   } catch (error) {
     next(error);
   }
 };
 
-// Get single blog by ID or slug (Public)
-export const getBlog = async (req: Request, res: Response, next: NextFunction) => {
+// Get single blog by ID or slug (Public; unpublished posts by ID for their author and editors)
+export const getBlog = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { idOrSlug } = req.params;
-    const blog = await BlogPost.findOne({
+    const { format } = getBlogSchema.parse(req.query);
+    let blog = await BlogPost.findOne({
       $or: [{ _id: mongoose.isValidObjectId(idOrSlug) ? idOrSlug : null }, { slug: idOrSlug }],
       status: "published",
     })
       .populate("categories", "name slug")
       .populate("tags", "name slug");
 
+    if (!blog && req.user && mongoose.isValidObjectId(idOrSlug)) {
+      const unpublished = await BlogPost.findById(idOrSlug)
+        .populate("categories", "name slug")
+        .populate("tags", "name slug");
+      if (unpublished && canViewUnpublishedBlog(req.user, unpublished)) {
+        blog = unpublished;
+        res.set({ "X-Robots-Tag": "noindex, nofollow", "Cache-Control": "private, no-store" });
+      }
+    }
+
     if (!blog) {
+      const renamed = await findByPreviousSlug(BlogPost, idOrSlug!, { status: "published" });
+      if (renamed) return sendSlugRedirect(req, res, renamed.slug);
       throw new CustomError("Blog not found", { statusCode: 404 });
     }
 
+    if (format === "html") {
+      const { content, ...rest } = blog.toObject();
+      res.status(200).json({
+        success: true,
+        data: { ...rest, html: renderLexicalToHtml(content) },
+      });
+      return;
+    }
+
     res.status(200).json({
       success: true,
       data: blog,
@@ -275,30 +596,215 @@ export const getBlog = async (req: Request, res: Response, next: NextFunction) =
   }
 };
 
+// List posts in every status for the dashboard, with counts per status (own posts unless blog:edit:any)
+export const getAdminBlogs = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const query = adminListBlogsSchema.parse(req.query);
+
+    // Everything but the status filter, so the counts cover every status tab
+    const conditions: FilterQuery<IBlogPost>[] = [];
+    if (!hasPermission(req.user, "blog:edit:any")) conditions.push({ "author.id": req.user!.id });
+    if (query.author) conditions.push({ "author.username": query.author });
+    if (query.tags) conditions.push({ tags: { $in: toObjectIds(query.tags) } });
+    if (query.categories) conditions.push({ categories: { $in: toObjectIds(query.categories) } });
+    if (query.updatedSince) conditions.push({ updatedAt: { $gte: query.updatedSince } });
+    if (query.q) {
+      const pattern = { $regex: escapeRegExp(query.q), $options: "i" };
+      conditions.push({ $or: [{ title: pattern }, { excerpt: pattern }, { slug: pattern }] });
+    }
+    const scope: FilterQuery<IBlogPost> = conditions.length > 0 ? { $and: conditions } : {};
+    const filter: FilterQuery<IBlogPost> = query.status ? { ...scope, status: { $in: query.status } } : scope;
+
+    const [total, statusCounts, blogs] = await Promise.all([
+      BlogPost.countDocuments(filter),
+      BlogPost.aggregate<{ _id: string; count: number }>([
+        { $match: scope },
+        { $group: { _id: "$status", count: { $sum: 1 } } },
+      ]),
+      BlogPost.find({ $and: [filter, buildCursorFilter(query.sort, query.cursor)] })
+        .select("-content -toc") // Exclude content
+        .populate("categories", "name slug")
+        .populate("tags", "name slug")
+        .sort(buildSort(query.sort))
+        .limit(query.limit + 1), // Fetch one extra to detect another page
+    ]);
+
+    const counts = Object.fromEntries(BLOG_STATUSES.map((status) => [status, 0])) as Record<string, number>;
+    for (const { _id, count } of statusCounts) counts[_id] = count;
+
+    const hasMore = blogs.length > query.limit;
+    const data = hasMore ? blogs.slice(0, query.limit) : blogs;
+    const last = data[data.length - 1];
 
-// Search blogs by query (Public, top 5, exclude content)
-export const searchBlogs = async (req: Request, res: Response, next: NextFunction) => {
+    res.status(200).json({
+      success: true,
+      data,
+      counts,
+      pagination: {
+        limit: query.limit,
+        total,
+        hasMore,
+        nextCursor: hasMore && last ? encodeCursor(query.sort, last) : null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Published posts related to a blog by shared taxonomy, text and recency (Public, exclude content)
+export const getRelatedBlogs = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { query } = searchSchema.parse(req.query);
-    logger.info(`Searching blogs with query: ${query}`);
+    const { idOrSlug } = req.params;
+    const { limit } = relatedBlogsSchema.parse(req.query);
+    const blog = await BlogPost.findOne({
+      $or: [{ _id: mongoose.isValidObjectId(idOrSlug) ? idOrSlug : null }, { slug: idOrSlug }],
+      status: "published",
+    }).select("+searchText");
+
+    if (!blog) {
+      throw new CustomError("Blog not found", { statusCode: 404 });
+    }
+
+    const ranked = await findRelatedBlogIds(blog, limit);
+    const blogs = await BlogPost.find({ _id: { $in: ranked.map(({ id }) => id) } })
+      .select("-content -toc") // Exclude content
+      .populate("categories", "name slug")
+      .populate("tags", "name slug");
+
+    // Restore the ranking order lost by the $in query
+    const data = ranked.flatMap(({ id }) => blogs.find((related) => String(related._id) === String(id)) ?? []);
+
+    res.status(200).json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Suggest tags for a post from its most frequent content keywords (Editors of the post)
+export const getSuggestedTags = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { limit } = suggestedTagsSchema.parse(req.query);
+
+    const blog = mongoose.isValidObjectId(id) ? await BlogPost.findById(id) : null;
+    if (!blog) {
+      throw new CustomError("Blog not found", { statusCode: 404 });
+    }
+    assertCanEditBlog(req.user, blog);
+
+    const text = [blog.title, blog.excerpt, extractDocumentText(blog.content)].join("\n");
+    const keywords = extractKeywords(text, 50);
+    const slugs = keywords.map(toSlug);
+    const tags = await Tag.find({ $or: [{ slug: { $in: slugs } }, { previousSlugs: { $in: slugs } }] }).select(
+      "name slug previousSlugs"
+    );
+
+    // Existing tags the post lacks, in keyword order, then the strongest keywords no tag covers yet
+    const applied = new Set(blog.tags.map(String));
+    const existing: typeof tags = [];
+    const unmatched: string[] = [];
+    keywords.forEach((keyword, index) => {
+      const slug = slugs[index]!;
+      const tag = tags.find((candidate) => candidate.slug === slug || candidate.previousSlugs.includes(slug));
+      if (!tag) unmatched.push(keyword);
+      else if (!applied.has(String(tag._id)) && !existing.includes(tag)) existing.push(tag);
+    });
 
-    // Normalize query to handle spaces and quotes
-    const normalizedQuery = `"${query.replace(/\s+/g, " ").trim()}"`;
+    res.status(200).json({
+      success: true,
+      data: {
+        tags: existing.slice(0, limit),
+        keywords: unmatched.slice(0, limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    const blogs = await BlogPost.find({
-      $text: { $search: normalizedQuery, $caseSensitive: false, $diacriticSensitive: false },
+// Export a blog as Markdown with front matter (Public)
+export const exportBlogMarkdown = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { idOrSlug } = req.params;
+    const blog = await BlogPost.findOne({
+      $or: [{ _id: mongoose.isValidObjectId(idOrSlug) ? idOrSlug : null }, { slug: idOrSlug }],
       status: "published",
     })
-      .select("-content") // Exclude content
-      .populate("categories", "name slug")
-      .populate("tags", "name slug")
-      .sort({ score: { $meta: "textScore" }, publishedAt: -1 }) // Sort by relevance and date
-      .limit(5); // Top 5 results
+      .populate("categories", "slug")
+      .populate("tags", "slug");
+
+    if (!blog) {
+      const renamed = await findByPreviousSlug(BlogPost, idOrSlug!, { status: "published" });
+      if (renamed) return sendSlugRedirect(req, res, renamed.slug);
+      throw new CustomError("Blog not found", { statusCode: 404 });
+    }
+
+    const slugsOf = (refs: unknown) => (refs as { slug: string }[]).map((ref) => ref.slug);
+    const frontMatter = serializeFrontMatter({
+      title: blog.title,
+      slug: blog.slug,
+      excerpt: blog.excerpt,
+      author: blog.author.username,
+      status: blog.status,
+      publishedAt: blog.publishedAt,
+      updatedAt: blog.updatedAt,
+      tags: slugsOf(blog.tags),
+      categories: slugsOf(blog.categories),
+      metaTitle: blog.metadata?.title,
+      description: blog.metadata?.description,
+      keywords: blog.metadata?.keywords,
+      coverImage: blog.metadata?.coverImage,
+      ogImage: blog.metadata?.ogImage,
+      canonicalUrl: blog.metadata?.canonicalUrl,
+      language: blog.metadata?.language,
+    });
+
+    // Not JSON, so the response cache cannot find these tags in the body
+    const idsOf = (refs: unknown) => (refs as { _id: unknown }[]).map((ref) => String(ref._id));
+    res.locals.cacheTags = [
+      `blog:${blog._id}`,
+      ...idsOf(blog.tags).map((id) => `tag:${id}`),
+      ...idsOf(blog.categories).map((id) => `category:${id}`),
+    ];
+    res
+      .status(200)
+      .type("text/markdown; charset=utf-8")
+      .set("Content-Disposition", `inline; filename="${blog.slug}.md"`)
+      .send(`${frontMatter}\n\n${lexicalToMarkdown(blog.content)}`);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Full-content search with AND/OR, "phrases", prefix* and -exclusions (Public, paginated, highlighted, faceted)
+export const searchBlogs = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { query, page, limit, ...filters } = searchSchema.parse(req.query);
+    logger.info(`Searching blogs with query: ${query}`);
+
+    const parsed = parseSearchQuery(query);
+    if (parsed.groups.length === 0) {
+      throw new CustomError("Search query must contain at least one term that is not excluded", { statusCode: 400 });
+    }
+
+    const { hits, total, facets } = await getSearchIndex().search({ query: parsed, filters, page, limit });
 
-    logger.info(`Found ${blogs.length} blogs for query: ${normalizedQuery}`);
+    logger.info(`Found ${total} blogs for query: ${query}`);
     res.status(200).json({
       success: true,
-      data: blogs,
+      data: hits.map(({ blog, score, highlights }) => ({ ...blog, score, highlights })),
+      facets,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasMore: page * limit < total,
+      },
     });
   } catch (error) {
     logger.error(`Error searching blogs: ${error}`);
@@ -306,10 +812,10 @@ export const searchBlogs = async (req: Request, res: Response, next: NextFunctio
   }
 };
 
-// Search blogs by tags (Public, exclude content)
+// Search blogs by tags (Public, paginated, exclude content)
 export const searchByTags = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { tagIds } = searchByTagsSchema.parse(req.query);
+    const { tagIds, ...query } = searchByTagsSchema.parse(req.query);
     logger.info(`Searching blogs with tagIds: ${tagIds}`);
 
     // Verify tags exist
@@ -318,19 +824,13 @@ export const searchByTags = async (req: Request, res: Response, next: NextFuncti
       throw new CustomError("One or more tags not found", { statusCode: 400 });
     }
 
-    const blogs = await BlogPost.find({
-      tags: { $in: tagIds.map((id) => new mongoose.Types.ObjectId(id)) },
-      status: "published",
-    })
-      .select("-content") // Exclude content
-      .populate("categories", "name slug")
-      .populate("tags", "name slug")
-      .sort({ publishedAt: -1 }); // Sort by newest first
+    const { data, pagination } = await findPublishedPage({ tags: { $in: toObjectIds(tagIds) } }, query);
 
-    logger.info(`Found ${blogs.length} blogs for tagIds: ${tagIds}`);
+    logger.info(`Found ${pagination.total} blogs for tagIds: ${tagIds}`);
     res.status(200).json({
       success: true,
-      data: blogs,
+      data,
+      pagination,
     });
   } catch (error) {
     logger.error(`Error searching blogs by tags: ${error}`);
@@ -338,10 +838,10 @@ export const searchByTags = async (req: Request, res: Response, next: NextFuncti
   }
 };
 
-// Search blogs by categories (Public, exclude content)
+// Search blogs by categories (Public, paginated, exclude content)
 export const searchByCategories = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { categoryIds } = searchByCategoriesSchema.parse(req.query);
+    const { categoryIds, includeDescendants, ...query } = searchByCategoriesSchema.parse(req.query);
     logger.info(`Searching blogs with categoryIds: ${categoryIds}`);
 
     // Verify categories exist
@@ -350,19 +850,19 @@ export const searchByCategories = async (req: Request, res: Response, next: Next
       throw new CustomError("One or more categories not found", { statusCode: 400 });
     }
 
-    const blogs = await BlogPost.find({
-      categories: { $in: categoryIds.map((id) => new mongoose.Types.ObjectId(id)) },
-      status: "published",
-    })
-      .select("-content") // Exclude content
-      .populate("categories", "name slug")
-      .populate("tags", "name slug")
-      .sort({ publishedAt: -1 }); // Sort by newest first
+    let matchIds = categoryIds;
+    if (includeDescendants) {
+      const graph = await loadCategoryGraph();
+      matchIds = [...new Set([...categoryIds, ...categoryIds.flatMap((id) => descendantIds(graph, id))])];
+    }
+
+    const { data, pagination } = await findPublishedPage({ categories: { $in: toObjectIds(matchIds) } }, query);
 
-    logger.info(`Found ${blogs.length} blogs for categoryIds: ${categoryIds}`);
+    logger.info(`Found ${pagination.total} blogs for categoryIds: ${categoryIds}`);
     res.status(200).json({
       success: true,
-      data: blogs,
+      data,
+      pagination,
     });
   } catch (error) {
     logger.error(`Error searching blogs by categories: ${error}`);
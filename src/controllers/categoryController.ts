@@ -1,14 +1,31 @@
 import { Request, Response, NextFunction } from "express";
 import { z } from "zod";
-import slugify from "slugify";
-import { Category } from "../models";
+import { Category, ICategory } from "../models";
 import CustomError from "../utils/customError";
 import { logger } from "../utils/logger";
+import { invalidateSitemaps } from "../utils/sitemap";
+import { invalidateCache } from "../utils/responseCache";
+import {
+  loadCategoryGraph,
+  categoryPath,
+  descendantIds,
+  assertValidParent,
+  buildCategoryTree,
+} from "../utils/categoryTree";
+import {
+  toSlug,
+  customSlugSchema,
+  applySlugUpdate,
+  isSlugTaken,
+  findByPreviousSlug,
+  sendSlugRedirect,
+} from "../utils/slugs";
 import mongoose from "mongoose";
 
 // Zod schemas for validation
 const categorySchema = z.object({
   name: z.string().min(1, "Category name is required"),
+  slug: customSlugSchema.optional(), // Pins a custom slug; generated from the name when omitted
   description: z.string().optional(),
   parentId: z
     .string()
@@ -16,46 +33,74 @@ const categorySchema = z.object({
     .optional(),
 });
 
+// null or "" moves the category to the top level
+const parentIdSchema = z
+  .string()
+  .refine((val) => !val || mongoose.isValidObjectId(val), { message: "Invalid parentId" })
+  .nullable();
+
 const updateCategorySchema = z.object({
   name: z.string().min(1, "Category name is required").optional(),
+  slug: customSlugSchema.nullable().optional(), // null unpins a custom slug
   description: z.string().optional(),
-  parentId: z
-    .string()
-    .refine((val) => !val || mongoose.isValidObjectId(val), { message: "Invalid parentId" })
-    .optional(),
+  parentId: parentIdSchema.optional(),
+});
+
+const moveCategorySchema = z.object({
+  parentId: parentIdSchema,
 });
 
+// Re-parent a category after checking for cycles and the depth limit; returns the moved subtree's ids
+const moveUnder = async (category: ICategory, parentId: string | null) => {
+  const graph = await loadCategoryGraph();
+  const id = String(category._id);
+
+  if (parentId) {
+    assertValidParent(graph, id, parentId);
+    category.parentId = new mongoose.Types.ObjectId(parentId);
+  } else {
+    category.set("parentId", undefined);
+  }
+
+  return [id, ...descendantIds(graph, id)];
+};
+
+// A move changes breadcrumbs across the subtree and which posts descendant listings include
+const invalidateMovedSubtree = async (subtree: string[]) => {
+  await invalidateCache(["categories:list", "blogs:list", ...subtree.map((id) => `category:${id}`)]);
+};
+
 // Create category (Admin only)
 export const createCategory = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { name, description, parentId } = categorySchema.parse(req.body);
+    const { name, slug: customSlug, description, parentId } = categorySchema.parse(req.body);
 
-    // Generate slug
-    const slug = slugify(name, { lower: true, strict: true });
+    // Use the custom slug or generate one
+    const slug = customSlug ?? toSlug(name);
 
-    // Check if category with the same slug exists
-    const existingCategory = await Category.findOne({ slug });
-    if (existingCategory) {
-      throw new CustomError("Category with this name already exists", { statusCode: 400 });
+    // Check if a category uses or used the same slug
+    if (await isSlugTaken(Category, slug)) {
+      throw new CustomError(`Category with this ${customSlug ? "slug" : "name"} already exists`, { statusCode: 400 });
     }
 
-    // Verify parentId exists if provided
+    // Verify parentId exists and the new category stays within the depth limit
     if (parentId) {
-      const parent = await Category.findById(parentId);
-      if (!parent) {
-        throw new CustomError("Parent category not found", { statusCode: 400 });
-      }
+      assertValidParent(await loadCategoryGraph(), null, parentId);
     }
 
     const category = await Category.create({
       name,
       slug,
+      slugPinned: customSlug !== undefined,
       description,
       parentId,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     });
 
+    await invalidateSitemaps();
+    await invalidateCache(["categories:list"]);
+
     logger.info(`Category created: ${name}`);
     res.status(201).json({
       success: true,
@@ -70,7 +115,7 @@ export const createCategory = async (req: Request, res: Response, next: NextFunc
 export const updateCategory = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { name, description, parentId } = updateCategorySchema.parse(req.body);
+    const { name, slug: customSlug, description, parentId } = updateCategorySchema.parse(req.body);
 
     // Verify category exists
     const category = await Category.findById(id);
@@ -78,32 +123,23 @@ export const updateCategory = async (req: Request, res: Response, next: NextFunc
       throw new CustomError("Category not found", { statusCode: 404 });
     }
 
-    // Update fields
-    if (name) {
-      category.name = name;
-      category.slug = slugify(name, { lower: true, strict: true });
-    }
+    // Update fields; an old slug stays in the history so its links redirect
+    if (name) category.name = name;
+    const slugChanged =
+      name || customSlug !== undefined ? applySlugUpdate(category, category.name, customSlug) : false;
     if (description !== undefined) category.description = description;
-    if (parentId !== undefined) {
-      if (parentId) {
-        const parent = await Category.findById(parentId);
-        if (!parent) {
-          throw new CustomError("Parent category not found", { statusCode: 400 });
-        }
-      }
-      category.parentId = new mongoose.Types.ObjectId(parentId);
-    }
+    const moved = parentId !== undefined ? await moveUnder(category, parentId) : [];
     category.updatedAt = new Date().toISOString();
 
-    // Check for duplicate slug
-    if (name) {
-      const existingCategory = await Category.findOne({ slug: category.slug, _id: { $ne: id } });
-      if (existingCategory) {
-        throw new CustomError("Category with this name already exists", { statusCode: 400 });
-      }
+    // Check for duplicate slug, including slugs other categories used before
+    if (slugChanged && (await isSlugTaken(Category, category.slug, category._id))) {
+      throw new CustomError(`Category with this ${customSlug ? "slug" : "name"} already exists`, { statusCode: 400 });
     }
 
     await category.save();
+    await invalidateSitemaps();
+    await invalidateCache(["categories:list", `category:${id}`]);
+    if (moved.length > 0) await invalidateMovedSubtree(moved);
 
     logger.info(`Category updated: ${category.name}`);
     res.status(200).json({
@@ -115,6 +151,34 @@ export const updateCategory = async (req: Request, res: Response, next: NextFunc
   }
 };
 
+// Move a category and all its subcategories under a new parent, or to the top level (Admin only)
+export const moveCategory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { parentId } = moveCategorySchema.parse(req.body);
+
+    const category = mongoose.isValidObjectId(id) ? await Category.findById(id) : null;
+    if (!category) {
+      throw new CustomError("Category not found", { statusCode: 404 });
+    }
+
+    const moved = await moveUnder(category, parentId);
+    category.updatedAt = new Date().toISOString();
+
+    await category.save();
+    await invalidateMovedSubtree(moved);
+
+    logger.info(`Category ${category.name} moved with ${moved.length - 1} subcategories`);
+    res.status(200).json({
+      success: true,
+      data: category,
+      moved: moved.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // Delete category (Admin only)
 export const deleteCategory = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -139,6 +203,8 @@ export const deleteCategory = async (req: Request, res: Response, next: NextFunc
     }
 
     await category.deleteOne();
+    await invalidateSitemaps();
+    await invalidateCache(["categories:list", `category:${id}`]);
 
     logger.info(`Category deleted: ${category.name}`);
     res.status(200).json({
@@ -163,7 +229,20 @@ export const getCategories = async (req: Request, res: Response, next: NextFunct
   }
 };
 
-// Get single category by ID or slug (Public)
+// Get all categories as a nested tree with post counts (Public)
+export const getCategoryTree = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tree = await buildCategoryTree();
+    res.status(200).json({
+      success: true,
+      data: tree,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get single category by ID or slug, with its breadcrumb path from the top level (Public)
 export const getCategory = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { idOrSlug } = req.params;
@@ -172,12 +251,16 @@ export const getCategory = async (req: Request, res: Response, next: NextFunctio
     }).populate("parentId", "name slug");
 
     if (!category) {
+      const renamed = await findByPreviousSlug(Category, idOrSlug!);
+      if (renamed) return sendSlugRedirect(req, res, renamed.slug);
       throw new CustomError("Category not found", { statusCode: 404 });
     }
 
+    const path = categoryPath(await loadCategoryGraph(), String(category._id));
+
     res.status(200).json({
       success: true,
-      data: category,
+      data: { ...category.toObject(), path },
     });
   } catch (error) {
     next(error);
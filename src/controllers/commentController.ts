@@ -0,0 +1,278 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import mongoose from "mongoose";
+import { BlogPost, Comment, IComment } from "../models";
+import { AuthRequest } from "../types";
+import CustomError from "../utils/customError";
+import { logger } from "../utils/logger";
+import { invalidateCache } from "../utils/responseCache";
+
+const MAX_DEPTH = 5; // Replies nest at most this many levels below a top-level comment
+const VISIBLE_STATUSES = ["approved", "deleted"]; // Deleted comments stay as placeholders while they have replies
+
+// Zod schemas for validation
+const objectIdSchema = (label: string) =>
+  z.string().refine((val) => mongoose.isValidObjectId(val), { message: `Invalid ${label}` });
+
+const commentStatusSchema = z.enum(["pending", "approved", "spam", "deleted"]);
+
+const listCommentsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: objectIdSchema("cursor").optional(),
+});
+
+const createCommentSchema = z.object({
+  authorName: z.string().trim().min(1, "Name is required").max(100),
+  authorEmail: z.string().email("Invalid email format").optional(),
+  authorUrl: z.string().url("Invalid URL").optional(),
+  body: z.string().trim().min(1, "Comment cannot be empty").max(5000, "Comment is too long"),
+  parentId: objectIdSchema("parentId").optional(),
+});
+
+const moderationQueueSchema = listCommentsSchema.extend({
+  status: commentStatusSchema.default("pending"),
+  blogId: objectIdSchema("blogId").optional(),
+});
+
+const moderateSchema = z.object({
+  status: commentStatusSchema,
+});
+
+const bulkModerateSchema = z.object({
+  ids: z.array(objectIdSchema("comment ID")).min(1, "At least one comment ID is required").max(100),
+  status: commentStatusSchema,
+});
+
+interface PublicComment {
+  _id: mongoose.Types.ObjectId;
+  parentId: mongoose.Types.ObjectId | null;
+  authorName: string | null;
+  authorUrl: string | null;
+  body: string | null;
+  deleted: boolean;
+  createdAt: string;
+  replies: PublicComment[];
+}
+
+// Load a published blog by ID or slug or fail with 404
+const findPublishedBlog = async (idOrSlug: string | undefined) => {
+  const blog = await BlogPost.findOne({
+    $or: [{ _id: mongoose.isValidObjectId(idOrSlug) ? idOrSlug : null }, { slug: idOrSlug }],
+    status: "published",
+  }).select("title slug commentsOpen");
+  if (!blog) {
+    throw new CustomError("Blog not found", { statusCode: 404 });
+  }
+  return blog;
+};
+
+// Recount approved comments on the posts and purge their cached responses
+const syncCommentCounts = async (blogIds: string[]) => {
+  for (const blogId of new Set(blogIds)) {
+    const commentCount = await Comment.countDocuments({ blogId, status: "approved" });
+    await BlogPost.updateOne({ _id: blogId }, { $set: { commentCount } });
+    await invalidateCache(["blogs:list", `blog:${blogId}`]);
+  }
+};
+
+// Nest comments under their parents; deleted comments without visible replies are dropped
+const buildThreads = (roots: IComment[], replies: IComment[]) => {
+  const nodes = new Map<string, PublicComment>();
+  for (const comment of [...roots, ...replies]) {
+    const deleted = comment.status === "deleted";
+    nodes.set(String(comment._id), {
+      _id: comment._id as mongoose.Types.ObjectId,
+      parentId: comment.parentId ?? null,
+      authorName: deleted ? null : comment.authorName,
+      authorUrl: deleted ? null : (comment.authorUrl ?? null),
+      body: deleted ? null : comment.body,
+      deleted,
+      createdAt: comment.createdAt,
+      replies: [],
+    });
+  }
+
+  // Replies are sorted oldest first, so every reply list stays in chronological order
+  for (const reply of replies) {
+    nodes.get(String(reply.parentId))?.replies.push(nodes.get(String(reply._id))!);
+  }
+
+  const prune = (list: PublicComment[]): PublicComment[] =>
+    list
+      .map((node) => ({ ...node, replies: prune(node.replies) }))
+      .filter((node) => !node.deleted || node.replies.length > 0);
+
+  return prune(roots.map((root) => nodes.get(String(root._id))!));
+};
+
+// Get approved comments of a post as threads, paginated by top-level comment (Public)
+export const getComments = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { limit, cursor } = listCommentsSchema.parse(req.query);
+    const blog = await findPublishedBlog(req.params.idOrSlug);
+
+    const roots = await Comment.find({
+      blogId: blog._id,
+      parentId: { $exists: false },
+      status: { $in: VISIBLE_STATUSES },
+      ...(cursor ? { _id: { $gt: cursor } } : {}),
+    })
+      .sort({ _id: 1 })
+      .limit(limit + 1);
+
+    const hasMore = roots.length > limit;
+    const page = roots.slice(0, limit);
+    const replies = await Comment.find({
+      blogId: blog._id,
+      rootId: { $in: page.map((root) => root._id) },
+      status: { $in: VISIBLE_STATUSES },
+    }).sort({ _id: 1 });
+
+    const last = page[page.length - 1];
+    res.status(200).json({
+      success: true,
+      data: buildThreads(page, replies),
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore && last ? String(last._id) : null,
+      },
+      commentsOpen: blog.commentsOpen,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Submit a comment or reply; it is held for moderation (Public, rate limited per IP)
+export const createComment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { parentId, ...fields } = createCommentSchema.parse(req.body);
+    const blog = await findPublishedBlog(req.params.idOrSlug);
+    if (!blog.commentsOpen) {
+      throw new CustomError("Comments are closed for this post", { statusCode: 403 });
+    }
+
+    let thread: Partial<Pick<IComment, "parentId" | "rootId" | "depth">> = { depth: 0 };
+    if (parentId) {
+      const parent = await Comment.findOne({ _id: parentId, blogId: blog._id, status: "approved" });
+      if (!parent) {
+        throw new CustomError("Parent comment not found", { statusCode: 400 });
+      }
+      if (parent.depth + 1 > MAX_DEPTH) {
+        throw new CustomError("Replies are nested too deeply", { statusCode: 400 });
+      }
+      thread = {
+        parentId: parent._id as mongoose.Types.ObjectId,
+        rootId: (parent.rootId ?? parent._id) as mongoose.Types.ObjectId,
+        depth: parent.depth + 1,
+      };
+    }
+
+    const comment = await Comment.create({
+      ...fields,
+      ...thread,
+      blogId: blog._id,
+      status: "pending",
+      ip: req.ip,
+      userAgent: req.get("user-agent"),
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    logger.info(`Comment submitted on ${blog.slug} by ${fields.authorName}`);
+    res.status(201).json({
+      success: true,
+      message: "Comment submitted for moderation",
+      data: { _id: comment._id, status: comment.status },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Moderation queue, newest first (comment:moderate)
+export const getModerationQueue = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { status, blogId, limit, cursor } = moderationQueueSchema.parse(req.query);
+
+    const filter = {
+      status,
+      ...(blogId ? { blogId } : {}),
+      ...(cursor ? { _id: { $lt: cursor } } : {}),
+    };
+    const [comments, total] = await Promise.all([
+      Comment.find(filter)
+        .sort({ _id: -1 })
+        .limit(limit + 1)
+        .populate("blogId", "title slug"),
+      Comment.countDocuments({ status, ...(blogId ? { blogId } : {}) }),
+    ]);
+
+    const hasMore = comments.length > limit;
+    const data = comments.slice(0, limit);
+    const last = data[data.length - 1];
+    res.status(200).json({
+      success: true,
+      data,
+      pagination: {
+        limit,
+        total,
+        hasMore,
+        nextCursor: hasMore && last ? String(last._id) : null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Set the moderation status of one comment (comment:moderate)
+export const moderateComment = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { status } = moderateSchema.parse(req.body);
+    const comment = mongoose.isValidObjectId(req.params.id) ? await Comment.findById(req.params.id) : null;
+    if (!comment) {
+      throw new CustomError("Comment not found", { statusCode: 404 });
+    }
+
+    comment.status = status;
+    comment.moderatedBy = req.user!.username;
+    comment.moderatedAt = new Date().toISOString();
+    comment.updatedAt = comment.moderatedAt;
+    await comment.save();
+    await syncCommentCounts([String(comment.blogId)]);
+
+    logger.info(`Comment ${comment._id} marked ${status} by ${req.user!.username}`);
+    res.status(200).json({
+      success: true,
+      data: comment,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Set the moderation status of many comments at once, e.g. approve or reject a queue page (comment:moderate)
+export const bulkModerateComments = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { ids, status } = bulkModerateSchema.parse(req.body);
+
+    const blogIds = await Comment.distinct("blogId", { _id: { $in: ids } });
+    const now = new Date().toISOString();
+    const result = await Comment.updateMany(
+      { _id: { $in: ids } },
+      { $set: { status, moderatedBy: req.user!.username, moderatedAt: now, updatedAt: now } }
+    );
+    await syncCommentCounts(blogIds.map(String));
+
+    logger.info(`${result.modifiedCount} comments marked ${status} by ${req.user!.username}`);
+    res.status(200).json({
+      success: true,
+      matched: result.matchedCount,
+      modified: result.modifiedCount,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
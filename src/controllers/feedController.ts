@@ -0,0 +1,180 @@
+import { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { z } from "zod";
+import { FilterQuery } from "mongoose";
+import env from "../config/env";
+import { BlogPost, Category, Tag, IBlogPost } from "../models";
+import CustomError from "../utils/customError";
+import { renderLexicalToHtml } from "../utils/lexicalRenderer";
+import { buildRss, buildAtom, buildJsonFeed, FeedItem, FeedMeta } from "../utils/feeds";
+import { siteUrl, postUrl, categoryUrl, tagUrl, authorUrl, postTagUri, absoluteUrl } from "../utils/siteUrls";
+
+type FeedFormat = "rss" | "atom" | "json";
+
+const FEED_LIMIT = 50;
+const FEED_MAX_AGE = 300; // Seconds clients and proxies may cache a feed
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+// Zod schemas for validation
+const feedQuerySchema = z.object({
+  full: z
+    .enum(["0", "1", "true", "false"])
+    .optional()
+    .transform((val) => val === "1" || val === "true"), // Include rendered content
+  format: z.enum(["rss", "atom", "json"]).optional(), // Only used by the .xml taxonomy/author feeds
+});
+
+// Build a feed for published blogs matching the filter, answering conditional requests with 304
+const sendFeed = async (
+  req: Request,
+  res: Response,
+  format: FeedFormat,
+  filter: FilterQuery<IBlogPost>,
+  meta: Pick<FeedMeta, "title" | "description" | "siteUrl">
+) => {
+  const { full } = feedQuerySchema.parse(req.query);
+  const query: FilterQuery<IBlogPost> = { ...filter, status: "published" };
+
+  const [latest, count] = await Promise.all([
+    BlogPost.findOne(query).sort({ updatedAt: -1 }).select("updatedAt"),
+    BlogPost.countDocuments(query),
+  ]);
+  const updatedAt = latest?.updatedAt ?? new Date(0).toISOString();
+  const etag = createHash("sha1").update([req.path, format, full, count, updatedAt].join("|")).digest("hex");
+
+  res.set({
+    "Content-Type": CONTENT_TYPES[format],
+    ETag: `W/"${etag}"`,
+    "Last-Modified": new Date(updatedAt).toUTCString(),
+    "Cache-Control": `public, max-age=${FEED_MAX_AGE}`,
+  });
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  const blogs = await BlogPost.find(query)
+    .select(full ? "" : "-content")
+    .populate("categories", "name")
+    .populate("tags", "name")
+    .sort({ publishedAt: -1 })
+    .limit(FEED_LIMIT);
+
+  const namesOf = (refs: unknown) => (refs as { name: string }[]).map((ref) => ref.name);
+  const items: FeedItem[] = blogs.map((blog) => ({
+    id: postTagUri(blog.id, blog.createdAt),
+    title: blog.title,
+    url: postUrl(blog.slug),
+    summary: blog.excerpt,
+    ...(full ? { contentHtml: renderLexicalToHtml(blog.content) } : {}),
+    publishedAt: blog.publishedAt ?? blog.createdAt,
+    updatedAt: blog.updatedAt,
+    author: { name: blog.author.name, username: blog.author.username, url: authorUrl(blog.author.username) },
+    categories: [...namesOf(blog.categories), ...namesOf(blog.tags)],
+    ...(blog.metadata?.coverImage ? { image: absoluteUrl(blog.metadata.coverImage) } : {}),
+  }));
+
+  const feedMeta: FeedMeta = {
+    ...meta,
+    feedUrl: siteUrl(req.baseUrl + req.path), // Never from the Host header, which the client controls
+    updatedAt,
+  };
+
+  if (format === "json") {
+    res.status(200).send(JSON.stringify(buildJsonFeed(feedMeta, items)));
+  } else {
+    res.status(200).send(format === "atom" ? buildAtom(feedMeta, items) : buildRss(feedMeta, items));
+  }
+};
+
+const siteMeta = () => ({ title: env.SITE_NAME, description: env.SITE_DESCRIPTION, siteUrl: siteUrl("/") });
+
+// Site-wide RSS feed (Public)
+export const getRssFeed = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await sendFeed(req, res, "rss", {}, siteMeta());
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Site-wide Atom feed (Public)
+export const getAtomFeed = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await sendFeed(req, res, "atom", {}, siteMeta());
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Site-wide JSON Feed (Public)
+export const getJsonFeed = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await sendFeed(req, res, "json", {}, siteMeta());
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Feed of a single category, RSS unless ?format is given (Public)
+export const getCategoryFeed = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { format = "rss" } = feedQuerySchema.parse(req.query);
+    const category = await Category.findOne({ slug: req.params.slug });
+    if (!category) {
+      throw new CustomError("Category not found", { statusCode: 404 });
+    }
+
+    await sendFeed(req, res, format, { categories: category._id }, {
+      title: `${env.SITE_NAME} - ${category.name}`,
+      description: category.description ?? env.SITE_DESCRIPTION,
+      siteUrl: categoryUrl(category.slug),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Feed of a single tag, RSS unless ?format is given (Public)
+export const getTagFeed = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { format = "rss" } = feedQuerySchema.parse(req.query);
+    const tag = await Tag.findOne({ slug: req.params.slug });
+    if (!tag) {
+      throw new CustomError("Tag not found", { statusCode: 404 });
+    }
+
+    await sendFeed(req, res, format, { tags: tag._id }, {
+      title: `${env.SITE_NAME} - #${tag.name}`,
+      description: env.SITE_DESCRIPTION,
+      siteUrl: tagUrl(tag.slug),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Feed of a single author's posts, RSS unless ?format is given (Public)
+export const getAuthorFeed = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { format = "rss" } = feedQuerySchema.parse(req.query);
+    const username = req.params.username;
+    const sample = await BlogPost.findOne({ "author.username": username, status: "published" }).select("author");
+    if (!sample) {
+      throw new CustomError("Author not found", { statusCode: 404 });
+    }
+
+    await sendFeed(req, res, format, { "author.username": username }, {
+      title: `${env.SITE_NAME} - ${sample.author.name}`,
+      description: sample.author.bio ?? env.SITE_DESCRIPTION,
+      siteUrl: authorUrl(sample.author.username),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
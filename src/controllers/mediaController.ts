@@ -0,0 +1,240 @@
+import { Response, NextFunction } from "express";
+import { z } from "zod";
+import mongoose from "mongoose";
+import path from "path";
+import { IMedia, Media } from "../models";
+import { AuthRequest, UploadRequest } from "../types";
+import CustomError from "../utils/customError";
+import { logger } from "../utils/logger";
+import { hasPermission } from "../utils/permissions";
+import { toSlug } from "../utils/slugs";
+import { escapeRegExp } from "../search";
+import { findMediaUsage } from "../utils/mediaReferences";
+import {
+  getStorageDriver,
+  getStorageDriverByName,
+  sniffImageType,
+  readImageDimensions,
+  generateVariants,
+} from "../media";
+
+// Zod schemas for validation
+const objectIdSchema = (label: string) =>
+  z.string().refine((val) => mongoose.isValidObjectId(val), { message: `Invalid ${label}` });
+
+const uploadMediaSchema = z.object({
+  alt: z.string().trim().max(300).default(""),
+  caption: z.string().trim().max(1000).optional(),
+});
+
+const updateMediaSchema = z.object({
+  alt: z.string().trim().max(300).optional(),
+  caption: z.string().trim().max(1000).nullable().optional(), // null clears it
+});
+
+const listMediaSchema = z.object({
+  type: z.string().regex(/^image(\/[a-z0-9.+-]+)?$/, { message: "Invalid type" }).optional(), // "image/png" or "image"
+  uploadedBy: z.string().optional(),
+  q: z.string().trim().max(100).optional(), // Filename or alt text
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+  cursor: objectIdSchema("cursor").optional(),
+});
+
+const findMediaOrThrow = async (id: string | undefined) => {
+  const media = mongoose.isValidObjectId(id) ? await Media.findById(id) : null;
+  if (!media) {
+    throw new CustomError("Media not found", { statusCode: 404 });
+  }
+  return media;
+};
+
+// Uploaders manage their own files; media:manage covers everyone's
+const assertCanManageMedia = (req: AuthRequest, media: IMedia) => {
+  if (hasPermission(req.user, "media:manage") || media.uploadedBy.id === req.user!.id) return;
+  throw new CustomError("You can only change your own uploads", { statusCode: 403 });
+};
+
+// Remove every stored file of a media item; missing files are not an error
+const deleteStoredFiles = async (storage: string, keys: string[]) => {
+  const driver = getStorageDriverByName(storage);
+  if (!driver) {
+    logger.warn(`Storage driver ${storage} is not configured; files left in place: ${keys.join(", ")}`);
+    return;
+  }
+  await Promise.all(keys.map((key) => driver.delete(key)));
+};
+
+// Upload an image with optional alt text and caption (media:upload)
+export const uploadMedia = async (req: UploadRequest, res: Response, next: NextFunction) => {
+  try {
+    const { alt, caption } = uploadMediaSchema.parse(req.body);
+    if (!req.file || req.file.data.length === 0) {
+      throw new CustomError('No file uploaded in the "file" field', { statusCode: 400 });
+    }
+
+    const { data, filename } = req.file;
+    const type = sniffImageType(data);
+    if (!type) {
+      throw new CustomError("Unsupported file type", {
+        statusCode: 415,
+        details: { allowed: ["image/jpeg", "image/png", "image/gif", "image/webp"] },
+      });
+    }
+    const dimensions = readImageDimensions(data, type.mimeType);
+    if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+      throw new CustomError("Image is corrupt or truncated", { statusCode: 400 });
+    }
+
+    // <yyyy>/<mm>/<id>/<name>.<ext>; the id keeps keys unique however often a name is reused
+    const id = new mongoose.Types.ObjectId();
+    const now = new Date();
+    const folder = `${now.getUTCFullYear()}/${String(now.getUTCMonth() + 1).padStart(2, "0")}/${id}`;
+    const baseName = toSlug(path.parse(filename).name).slice(0, 80) || "image";
+    const storageKey = `${folder}/${baseName}.${type.extension}`;
+
+    const driver = getStorageDriver();
+    const variants = (await generateVariants(data, type.mimeType, dimensions)).map((variant) => ({
+      ...variant,
+      storageKey: `${folder}/${baseName}-${variant.name}.${type.extension}`,
+    }));
+    const stored: string[] = [];
+    try {
+      for (const file of [{ storageKey, data, mimeType: type.mimeType }, ...variants]) {
+        await driver.put(file.storageKey, file.data, file.mimeType);
+        stored.push(file.storageKey);
+      }
+    } catch (error) {
+      await deleteStoredFiles(driver.name, stored);
+      throw error;
+    }
+
+    const media = await Media.create({
+      _id: id,
+      filename,
+      storage: driver.name,
+      storageKey,
+      url: driver.url(storageKey),
+      mimeType: type.mimeType,
+      size: data.length,
+      width: dimensions.width,
+      height: dimensions.height,
+      variants: variants.map(({ name, storageKey: key, data: variantData, mimeType, width, height }) => ({
+        name,
+        storageKey: key,
+        url: driver.url(key),
+        mimeType,
+        size: variantData.length,
+        width,
+        height,
+      })),
+      alt,
+      ...(caption ? { caption } : {}),
+      uploadedBy: { id: req.user!.id, username: req.user!.username },
+    });
+
+    logger.info(`Media uploaded: ${storageKey} by ${req.user!.username}`);
+    res.status(201).json({
+      success: true,
+      data: media,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List the media library, newest first (media:upload)
+export const getMediaList = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { type, uploadedBy, q, limit, cursor } = listMediaSchema.parse(req.query);
+
+    const pattern = q ? { $regex: escapeRegExp(q), $options: "i" } : undefined;
+    const filter = {
+      ...(type ? { mimeType: type.includes("/") ? type : { $regex: `^${escapeRegExp(type)}/` } } : {}),
+      ...(uploadedBy ? { "uploadedBy.id": uploadedBy } : {}),
+      ...(pattern ? { $or: [{ filename: pattern }, { alt: pattern }] } : {}),
+    };
+    const [media, total] = await Promise.all([
+      Media.find({ ...filter, ...(cursor ? { _id: { $lt: cursor } } : {}) })
+        .sort({ _id: -1 })
+        .limit(limit + 1),
+      Media.countDocuments(filter),
+    ]);
+
+    const hasMore = media.length > limit;
+    const data = media.slice(0, limit);
+    const last = data[data.length - 1];
+    res.status(200).json({
+      success: true,
+      data,
+      pagination: {
+        limit,
+        total,
+        hasMore,
+        nextCursor: hasMore && last ? String(last._id) : null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a media item with the posts and users that reference it (media:upload)
+export const getMedia = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const media = await findMediaOrThrow(req.params.id);
+    const usage = await findMediaUsage(media);
+
+    res.status(200).json({
+      success: true,
+      data: { ...media.toObject(), usage },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Update alt text and caption (uploader or media:manage)
+export const updateMedia = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { alt, caption } = updateMediaSchema.parse(req.body);
+    const media = await findMediaOrThrow(req.params.id);
+    assertCanManageMedia(req, media);
+
+    if (alt !== undefined) media.alt = alt;
+    if (caption === null || caption === "") media.set("caption", undefined);
+    else if (caption !== undefined) media.caption = caption;
+    media.updatedAt = new Date().toISOString();
+    await media.save();
+
+    res.status(200).json({
+      success: true,
+      data: media,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Delete a media item and its files; refused while a post or profile still uses it (uploader or media:manage)
+export const deleteMedia = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const media = await findMediaOrThrow(req.params.id);
+    assertCanManageMedia(req, media);
+
+    const usage = await findMediaUsage(media);
+    if (usage.blogs.length > 0 || usage.users.length > 0) {
+      throw new CustomError("Media is in use and cannot be deleted", { statusCode: 409, details: usage });
+    }
+
+    await media.deleteOne();
+    await deleteStoredFiles(media.storage, [media.storageKey, ...media.variants.map((variant) => variant.storageKey)]);
+
+    logger.info(`Media deleted: ${media.storageKey}`);
+    res.status(200).json({
+      success: true,
+      message: "Media deleted successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,145 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import mongoose from "mongoose";
+import env from "../config/env";
+import { BlogPost, BlogRevision } from "../models";
+import { AuthRequest } from "../types";
+import CustomError from "../utils/customError";
+import { logger } from "../utils/logger";
+import { renderLexicalToHtml } from "../utils/lexicalRenderer";
+import { assertCanViewBlogHistory } from "../utils/permissions";
+import {
+  createPreviewToken,
+  verifyPreviewToken,
+  listPreviewTokens,
+  revokePreviewToken,
+} from "../utils/previewTokens";
+
+// Zod schemas for validation
+const createPreviewSchema = z.object({
+  version: z.number().int().min(1).optional(), // Preview a specific revision instead of the current content
+  expiresInHours: z.number().int().min(1).max(env.PREVIEW_MAX_TTL_HOURS).default(env.PREVIEW_TTL_HOURS),
+});
+
+const previewQuerySchema = z.object({
+  format: z.enum(["json", "html"]).default("json"), // html: replace Lexical content with rendered HTML
+});
+
+const findBlogOrThrow = async (id: string | undefined) => {
+  const blog = mongoose.isValidObjectId(id) ? await BlogPost.findById(id) : null;
+  if (!blog) {
+    throw new CustomError("Blog not found", { statusCode: 404 });
+  }
+  return blog;
+};
+
+const previewUrl = (token: string) => `${env.CLIENT_URL}/preview?token=${token}`;
+
+// Mint a time-limited preview link for a post or one of its revisions (post author or editor)
+export const createPreview = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { version, expiresInHours } = createPreviewSchema.parse(req.body);
+    const blog = await findBlogOrThrow(req.params.id);
+    assertCanViewBlogHistory(req.user, blog);
+
+    if (version !== undefined && !(await BlogRevision.exists({ blogId: blog._id, version }))) {
+      throw new CustomError(`Revision ${version} not found`, { statusCode: 404 });
+    }
+
+    const { token, preview } = await createPreviewToken(
+      String(blog._id),
+      req.user!.username,
+      expiresInHours * 60 * 60,
+      version
+    );
+
+    logger.info(`Preview link created for blog ${blog.title} by ${req.user!.username}`);
+    res.status(201).json({
+      success: true,
+      data: { ...preview, token, url: previewUrl(token) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List a post's live preview links (post author or editor)
+export const listPreviews = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const blog = await findBlogOrThrow(req.params.id);
+    assertCanViewBlogHistory(req.user, blog);
+
+    const previews = await listPreviewTokens(String(blog._id));
+    res.status(200).json({
+      success: true,
+      data: previews,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Revoke a preview link before it expires (post author or editor)
+export const revokePreview = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const blog = await findBlogOrThrow(req.params.id);
+    assertCanViewBlogHistory(req.user, blog);
+
+    const revoked = await revokePreviewToken(String(blog._id), req.params.previewId!);
+    if (!revoked) {
+      throw new CustomError("Preview link not found", { statusCode: 404 });
+    }
+
+    logger.info(`Preview link ${req.params.previewId} revoked for blog ${blog.title}`);
+    res.status(200).json({
+      success: true,
+      message: "Preview link revoked successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Render a post in any status for holders of a valid preview link (Public, never indexed or cached)
+export const getBlogPreview = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { format } = previewQuerySchema.parse(req.query);
+    res.set({
+      "X-Robots-Tag": "noindex, nofollow",
+      "Cache-Control": "private, no-store",
+      "Referrer-Policy": "no-referrer", // Keep the token out of Referer headers
+    });
+
+    // Unknown, expired and revoked links look the same
+    const preview = await verifyPreviewToken(req.params.token!);
+    const blog = preview
+      ? await BlogPost.findById(preview.blogId).populate("categories", "name slug").populate("tags", "name slug")
+      : null;
+    if (!preview || !blog) {
+      throw new CustomError("Preview link is invalid or has expired", { statusCode: 404 });
+    }
+
+    const data = blog.toObject();
+    if (preview.version !== undefined) {
+      const revision = await BlogRevision.findOne({ blogId: blog._id, version: preview.version });
+      if (!revision) {
+        throw new CustomError("Preview link is invalid or has expired", { statusCode: 404 });
+      }
+      Object.assign(data, {
+        title: revision.title,
+        excerpt: revision.excerpt,
+        content: revision.content,
+        metadata: revision.metadata ?? {},
+      });
+    }
+
+    const { content, ...rest } = data;
+    res.status(200).json({
+      success: true,
+      data: format === "html" ? { ...rest, html: renderLexicalToHtml(content) } : data,
+      preview: { version: preview.version ?? null, expiresAt: preview.expiresAt },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
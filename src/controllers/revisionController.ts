@@ -0,0 +1,143 @@
+import { Response, NextFunction } from "express";
+import { z } from "zod";
+import mongoose from "mongoose";
+import { BlogPost, BlogRevision } from "../models";
+import { AuthRequest } from "../types";
+import CustomError from "../utils/customError";
+import { logger } from "../utils/logger";
+import { diffLexical, diffText } from "../utils/lexicalDiff";
+import { saveWithRevision, editorFromRequest } from "../utils/revisions";
+import { applyDerivedMetadata } from "../utils/contentMetadata";
+import { invalidateSitemaps } from "../utils/sitemap";
+import { invalidateCache } from "../utils/responseCache";
+import { assertCanEditBlog, assertCanViewBlogHistory } from "../utils/permissions";
+import { applySlugUpdate, isSlugTaken } from "../utils/slugs";
+import { syncSearchIndex } from "../search";
+import { syncMediaReferences } from "../utils/mediaReferences";
+
+// Zod schemas for validation
+const versionSchema = z.coerce.number().int().min(1, "Invalid revision version");
+
+const diffSchema = z.object({
+  from: versionSchema,
+  to: versionSchema,
+});
+
+// Load a blog by ID or fail with 404
+const findBlogOrThrow = async (id: string | undefined) => {
+  const blog = mongoose.isValidObjectId(id) ? await BlogPost.findById(id) : null;
+  if (!blog) {
+    throw new CustomError("Blog not found", { statusCode: 404 });
+  }
+  return blog;
+};
+
+// Load a single revision of a blog or fail with 404
+const findRevisionOrThrow = async (blogId: mongoose.Types.ObjectId, version: number) => {
+  const revision = await BlogRevision.findOne({ blogId, version });
+  if (!revision) {
+    throw new CustomError(`Revision ${version} not found`, { statusCode: 404 });
+  }
+  return revision;
+};
+
+// List revisions of a blog, newest first (post author or editor, exclude content)
+export const listRevisions = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const blog = await findBlogOrThrow(req.params.id);
+    assertCanViewBlogHistory(req.user, blog);
+
+    const revisions = await BlogRevision.find({ blogId: blog._id }).select("-content").sort({ version: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: revisions,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a single revision with content (post author or editor)
+export const getRevision = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const version = versionSchema.parse(req.params.version);
+    const blog = await findBlogOrThrow(req.params.id);
+    assertCanViewBlogHistory(req.user, blog);
+    const revision = await findRevisionOrThrow(blog._id as mongoose.Types.ObjectId, version);
+
+    res.status(200).json({
+      success: true,
+      data: revision,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Diff two revisions at the Lexical node and text level (post author or editor)
+export const diffRevisions = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { from, to } = diffSchema.parse(req.query);
+    const blog = await findBlogOrThrow(req.params.id);
+    assertCanViewBlogHistory(req.user, blog);
+    const blogId = blog._id as mongoose.Types.ObjectId;
+
+    const [fromRevision, toRevision] = await Promise.all([
+      findRevisionOrThrow(blogId, from),
+      findRevisionOrThrow(blogId, to),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        from: fromRevision.version,
+        to: toRevision.version,
+        title: fromRevision.title === toRevision.title ? null : diffText(fromRevision.title, toRevision.title),
+        excerpt:
+          fromRevision.excerpt === toRevision.excerpt ? null : diffText(fromRevision.excerpt, toRevision.excerpt),
+        content: diffLexical(fromRevision.content, toRevision.content),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Restore a revision as the current version of the blog (requires edit access to the post)
+export const restoreRevision = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const version = versionSchema.parse(req.params.version);
+    const blog = await findBlogOrThrow(req.params.id);
+    assertCanEditBlog(req.user, blog);
+    const revision = await findRevisionOrThrow(blog._id as mongoose.Types.ObjectId, version);
+
+    if (revision.title !== blog.title) {
+      blog.title = revision.title;
+      if (applySlugUpdate(blog, blog.title, undefined) && (await isSlugTaken(BlogPost, blog.slug, blog._id))) {
+        throw new CustomError("Blog with this title already exists", { statusCode: 400 });
+      }
+    }
+    blog.excerpt = revision.excerpt;
+    blog.content = revision.content;
+    blog.metadata = revision.metadata ?? {};
+    blog.markModified("content");
+    applyDerivedMetadata(blog);
+    blog.updatedAt = new Date().toISOString();
+
+    const restored = await saveWithRevision(blog, editorFromRequest(req), revision._id as mongoose.Types.ObjectId);
+    await syncSearchIndex(blog);
+    await syncMediaReferences(blog);
+    await invalidateSitemaps();
+    await invalidateCache(["blogs:list", `blog:${blog._id}`]);
+
+    logger.info(`Blog ${blog.title} restored to revision ${version} as revision ${restored.version}`);
+    res.status(200).json({
+      success: true,
+      data: blog,
+      revision: restored.version,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
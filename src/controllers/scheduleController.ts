@@ -0,0 +1,141 @@
+import { Response, NextFunction } from "express";
+import { z } from "zod";
+import mongoose from "mongoose";
+import { BlogPost, IBlogPost } from "../models";
+import { AuthRequest } from "../types";
+import CustomError from "../utils/customError";
+import { logger } from "../utils/logger";
+import { syncBlogSchedule } from "../jobs/publishScheduler";
+import { invalidateSitemaps } from "../utils/sitemap";
+import { hasPermission } from "../utils/permissions";
+import { invalidateCache } from "../utils/responseCache";
+
+// Zod schemas for validation
+const scheduleSchema = z.object({
+  action: z.enum(["publish", "unpublish", "archive"]),
+  at: z
+    .string()
+    .refine((val) => !isNaN(Date.parse(val)), { message: "Invalid date" })
+    .refine((val) => Date.parse(val) > Date.now(), { message: "Scheduled time must be in the future" })
+    .transform((val) => new Date(val).toISOString()),
+});
+
+const cancelScheduleSchema = z.object({
+  action: z.enum(["publish", "unpublish", "archive"]),
+});
+
+const findBlogOrThrow = async (id: string | undefined) => {
+  const blog = mongoose.isValidObjectId(id) ? await BlogPost.findById(id) : null;
+  if (!blog) {
+    throw new CustomError("Blog not found", { statusCode: 404 });
+  }
+  return blog;
+};
+
+// Authors schedule publishing of their own unpublished posts; unpublishing live posts is for editors
+const assertCanSchedule = (req: AuthRequest, blog: IBlogPost, action: string) => {
+  if (hasPermission(req.user, "blog:publish:any")) return;
+  const ownUnpublished = blog.author.id === req.user!.id && (blog.status === "draft" || blog.status === "scheduled");
+  if (action === "publish" && ownUnpublished) return;
+  throw new CustomError("You do not have permission to schedule this post", { statusCode: 403 });
+};
+
+// List upcoming scheduled publishes, unpublishes and archives, soonest first (own posts unless blog:publish:any)
+export const getScheduledBlogs = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const blogs = await BlogPost.find({
+      $or: [{ status: "scheduled" }, { status: "published", scheduledTransition: { $exists: true } }],
+      ...(hasPermission(req.user, "blog:publish:any") ? {} : { "author.id": req.user!.id }),
+    }).select("title slug status publishedAt scheduledTransition author.name author.username");
+
+    const items = blogs
+      .map((blog) => ({
+        blogId: blog._id,
+        title: blog.title,
+        slug: blog.slug,
+        author: blog.author,
+        action: blog.status === "scheduled" ? "publish" : blog.scheduledTransition!.action,
+        at: blog.status === "scheduled" ? blog.publishedAt! : blog.scheduledTransition!.at,
+      }))
+      .sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+
+    res.status(200).json({
+      success: true,
+      data: items,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Schedule or reschedule a publish, unpublish or archive
+export const scheduleBlog = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { action, at } = scheduleSchema.parse(req.body);
+    const blog = await findBlogOrThrow(req.params.id);
+    assertCanSchedule(req, blog, action);
+
+    if (action === "publish") {
+      if (blog.status === "published") {
+        throw new CustomError("Blog is already published", { statusCode: 400 });
+      }
+      blog.status = "scheduled";
+      blog.publishedAt = at;
+    } else {
+      if (blog.status !== "published") {
+        throw new CustomError(`Only published blogs can be scheduled to ${action}`, { statusCode: 400 });
+      }
+      blog.scheduledTransition = { action, at };
+    }
+    blog.updatedAt = new Date().toISOString();
+
+    await blog.save();
+    await syncBlogSchedule(blog);
+    await invalidateSitemaps();
+    await invalidateCache(["blogs:list", `blog:${blog._id}`]);
+
+    logger.info(`Blog ${blog.title} scheduled to ${action} at ${at}`);
+    res.status(200).json({
+      success: true,
+      data: blog,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Cancel a scheduled action; a cancelled publish returns the blog to draft
+export const cancelSchedule = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { action } = cancelScheduleSchema.parse(req.params);
+    const blog = await findBlogOrThrow(req.params.id);
+    assertCanSchedule(req, blog, action);
+
+    if (action === "publish") {
+      if (blog.status !== "scheduled") {
+        throw new CustomError("Blog is not scheduled for publishing", { statusCode: 400 });
+      }
+      blog.status = "draft";
+      blog.set("publishedAt", undefined);
+    } else {
+      if (blog.scheduledTransition?.action !== action) {
+        throw new CustomError(`Blog is not scheduled to ${action}`, { statusCode: 400 });
+      }
+      blog.set("scheduledTransition", undefined);
+    }
+    blog.updatedAt = new Date().toISOString();
+
+    await blog.save();
+    await syncBlogSchedule(blog);
+    await invalidateSitemaps();
+    await invalidateCache(["blogs:list", `blog:${blog._id}`]);
+
+    logger.info(`Scheduled ${action} cancelled for blog: ${blog.title}`);
+    res.status(200).json({
+      success: true,
+      data: blog,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
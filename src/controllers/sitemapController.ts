@@ -0,0 +1,122 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { BlogPost, Category, Tag } from "../models";
+import CustomError from "../utils/customError";
+import { siteUrl, postUrl, categoryUrl, tagUrl, absoluteUrl } from "../utils/siteUrls";
+import {
+  SITEMAP_MAX_URLS,
+  buildUrlSet,
+  buildSitemapIndex,
+  getCachedSitemap,
+  SitemapRef,
+  SitemapUrl,
+} from "../utils/sitemap";
+
+const SITEMAP_MAX_AGE = 3600; // Seconds clients and proxies may cache a sitemap
+
+// Zod schemas for validation
+const sitemapParamsSchema = z.object({
+  type: z.enum(["posts", "categories", "tags"]),
+  page: z.coerce.number().int().min(1),
+});
+
+type SitemapType = z.infer<typeof sitemapParamsSchema>["type"];
+
+const PUBLISHED = { status: "published" };
+
+// Fetch one page of URLs for a sitemap type
+const loadUrls = async (type: SitemapType, page: number): Promise<SitemapUrl[]> => {
+  const skip = (page - 1) * SITEMAP_MAX_URLS;
+
+  if (type === "posts") {
+    const blogs = await BlogPost.find(PUBLISHED)
+      .select("slug updatedAt metadata.canonicalUrl metadata.coverImage")
+      .sort({ _id: 1 })
+      .skip(skip)
+      .limit(SITEMAP_MAX_URLS)
+      .lean();
+
+    return blogs.map((blog) => ({
+      loc: blog.metadata?.canonicalUrl || postUrl(blog.slug),
+      lastmod: blog.updatedAt,
+      ...(blog.metadata?.coverImage ? { images: [absoluteUrl(blog.metadata.coverImage)] } : {}),
+    }));
+  }
+
+  const model = type === "categories" ? Category : Tag;
+  const toUrl = type === "categories" ? categoryUrl : tagUrl;
+  const docs = await (model as typeof Tag)
+    .find()
+    .select("slug updatedAt")
+    .sort({ _id: 1 })
+    .skip(skip)
+    .limit(SITEMAP_MAX_URLS)
+    .lean();
+
+  return docs.map((doc) => ({ loc: toUrl(doc.slug), lastmod: doc.updatedAt }));
+};
+
+const sendXml = (res: Response, xml: string) => {
+  res
+    .status(200)
+    .set({ "Content-Type": "application/xml; charset=utf-8", "Cache-Control": `public, max-age=${SITEMAP_MAX_AGE}` })
+    .send(xml);
+};
+
+// Sitemap index listing every child sitemap (Public)
+export const getSitemapIndex = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Child sitemaps are addressed under SITE_URL, never the request's Host header, which clients control
+    const xml = await getCachedSitemap("index", async () => {
+      const [postCount, categoryCount, tagCount, latestPost, latestCategory, latestTag] = await Promise.all([
+        BlogPost.countDocuments(PUBLISHED),
+        Category.countDocuments(),
+        Tag.countDocuments(),
+        BlogPost.findOne(PUBLISHED).sort({ updatedAt: -1 }).select("updatedAt"),
+        Category.findOne().sort({ updatedAt: -1 }).select("updatedAt"),
+        Tag.findOne().sort({ updatedAt: -1 }).select("updatedAt"),
+      ]);
+
+      const refs: SitemapRef[] = [];
+      const addPages = (type: SitemapType, count: number, lastmod: string | undefined) => {
+        const pages = Math.max(1, Math.ceil(count / SITEMAP_MAX_URLS));
+        for (let page = 1; page <= pages; page++) {
+          refs.push({ loc: siteUrl(`/sitemaps/${type}-${page}.xml`), ...(lastmod ? { lastmod } : {}) });
+        }
+      };
+      addPages("posts", postCount, latestPost?.updatedAt);
+      addPages("categories", categoryCount, latestCategory?.updatedAt);
+      addPages("tags", tagCount, latestTag?.updatedAt);
+
+      return buildSitemapIndex(refs);
+    });
+
+    sendXml(res, xml!);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// A single child sitemap, e.g. /sitemaps/posts-1.xml (Public)
+export const getSitemap = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = sitemapParamsSchema.safeParse(req.params);
+    if (!parsed.success) {
+      throw new CustomError("Sitemap not found", { statusCode: 404 });
+    }
+    const { type, page } = parsed.data;
+
+    const xml = await getCachedSitemap(`${type}:${page}`, async () => {
+      const urls = await loadUrls(type, page);
+      // Page 1 always exists (possibly empty) so the index never points at a 404
+      return urls.length === 0 && page > 1 ? null : buildUrlSet(urls);
+    });
+    if (xml === null) {
+      throw new CustomError("Sitemap not found", { statusCode: 404 });
+    }
+
+    sendXml(res, xml);
+  } catch (error) {
+    next(error);
+  }
+};
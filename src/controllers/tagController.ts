@@ -1,41 +1,76 @@
 import { Request, Response, NextFunction } from "express";
 import { z } from "zod";
-import slugify from "slugify";
-import { Tag } from "../models";
+import { BlogPost, Tag } from "../models";
 import CustomError from "../utils/customError";
 import { logger } from "../utils/logger";
+import { invalidateSitemaps } from "../utils/sitemap";
+import { invalidateCache } from "../utils/responseCache";
+import { escapeRegExp } from "../search";
+import {
+  toSlug,
+  customSlugSchema,
+  applySlugUpdate,
+  isSlugTaken,
+  findByPreviousSlug,
+  sendSlugRedirect,
+} from "../utils/slugs";
 import mongoose from "mongoose";
 
 // Zod schema for validation
 const tagSchema = z.object({
   name: z.string().min(1, "Tag name is required"),
+  slug: customSlugSchema.optional(), // Pins a custom slug; generated from the name when omitted
 });
 
 const updateTagSchema = z.object({
   name: z.string().min(1, "Tag name is required").optional(),
+  slug: customSlugSchema.nullable().optional(), // null unpins a custom slug
 });
 
+const mergeTagSchema = z.object({
+  targetId: z.string().refine((val) => mongoose.isValidObjectId(val), { message: "Invalid targetId" }),
+});
+
+const autocompleteSchema = z.object({
+  q: z.string().trim().min(1, "Query is required").max(100),
+  limit: z.coerce.number().int().min(1).max(25).default(10),
+});
+
+// Published posts per tag, optionally restricted to some tags
+const countTagUsage = async (tagIds?: mongoose.Types.ObjectId[]) => {
+  const counts: { _id: mongoose.Types.ObjectId; count: number }[] = await BlogPost.aggregate([
+    { $match: { status: "published", ...(tagIds ? { tags: { $in: tagIds } } : {}) } },
+    { $unwind: "$tags" },
+    ...(tagIds ? [{ $match: { tags: { $in: tagIds } } }] : []),
+    { $group: { _id: "$tags", count: { $sum: 1 } } },
+  ]);
+  return new Map(counts.map(({ _id, count }) => [String(_id), count]));
+};
+
 // Create tag (Admin only)
 export const createTag = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { name } = tagSchema.parse(req.body);
+    const { name, slug: customSlug } = tagSchema.parse(req.body);
 
-    // Generate slug
-    const slug = slugify(name, { lower: true, strict: true });
+    // Use the custom slug or generate one
+    const slug = customSlug ?? toSlug(name);
 
-    // Check if tag with the same slug exists
-    const existingTag = await Tag.findOne({ slug });
-    if (existingTag) {
-      throw new CustomError("Tag with this name already exists", { statusCode: 400 });
+    // Check if a tag uses or used the same slug
+    if (await isSlugTaken(Tag, slug)) {
+      throw new CustomError(`Tag with this ${customSlug ? "slug" : "name"} already exists`, { statusCode: 400 });
     }
 
     const tag = await Tag.create({
       name,
       slug,
+      slugPinned: customSlug !== undefined,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     });
 
+    await invalidateSitemaps();
+    await invalidateCache(["tags:list"]);
+
     logger.info(`Tag created: ${name}`);
     res.status(201).json({
       success: true,
@@ -50,7 +85,7 @@ export const createTag = async (req: Request, res: Response, next: NextFunction)
 export const updateTag = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { name } = updateTagSchema.parse(req.body);
+    const { name, slug: customSlug } = updateTagSchema.parse(req.body);
 
     // Verify tag exists
     const tag = await Tag.findById(id);
@@ -58,22 +93,19 @@ export const updateTag = async (req: Request, res: Response, next: NextFunction)
       throw new CustomError("Tag not found", { statusCode: 404 });
     }
 
-    // Update fields
-    if (name) {
-      tag.name = name;
-      tag.slug = slugify(name, { lower: true, strict: true });
-    }
+    // Update fields; an old slug stays in the history so its links redirect
+    if (name) tag.name = name;
+    const slugChanged = name || customSlug !== undefined ? applySlugUpdate(tag, tag.name, customSlug) : false;
     tag.updatedAt = new Date().toISOString();
 
-    // Check for duplicate slug
-    if (name) {
-      const existingTag = await Tag.findOne({ slug: tag.slug, _id: { $ne: id } });
-      if (existingTag) {
-        throw new CustomError("Tag with this name already exists", { statusCode: 400 });
-      }
+    // Check for duplicate slug, including slugs other tags used before
+    if (slugChanged && (await isSlugTaken(Tag, tag.slug, tag._id))) {
+      throw new CustomError(`Tag with this ${customSlug ? "slug" : "name"} already exists`, { statusCode: 400 });
     }
 
     await tag.save();
+    await invalidateSitemaps();
+    await invalidateCache(["tags:list", `tag:${id}`]);
 
     logger.info(`Tag updated: ${tag.name}`);
     res.status(200).json({
@@ -85,6 +117,73 @@ export const updateTag = async (req: Request, res: Response, next: NextFunction)
   }
 };
 
+// Merge a tag into another: posts are re-tagged and the merged tag's slugs redirect to the target (Admin only)
+export const mergeTag = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { targetId } = mergeTagSchema.parse(req.body);
+
+    if (id === targetId) {
+      throw new CustomError("A tag cannot be merged into itself", { statusCode: 400 });
+    }
+    const [source, target] = await Promise.all([
+      mongoose.isValidObjectId(id) ? Tag.findById(id) : null,
+      Tag.findById(targetId),
+    ]);
+    if (!source) {
+      throw new CustomError("Tag not found", { statusCode: 404 });
+    }
+    if (!target) {
+      throw new CustomError("Target tag not found", { statusCode: 400 });
+    }
+
+    // One update per post: swap the tag in place and drop the duplicate when a post already has the target
+    const replaced = { $cond: [{ $eq: ["$$this", source._id] }, target._id, "$$this"] };
+    const retag = [
+      {
+        $set: {
+          tags: {
+            $reduce: {
+              input: "$tags",
+              initialValue: [],
+              in: {
+                $cond: [{ $in: [replaced, "$$value"] }, "$$value", { $concatArrays: ["$$value", [replaced]] }],
+              },
+            },
+          },
+        },
+      },
+    ];
+
+    target.previousSlugs = [...new Set([...target.previousSlugs, source.slug, ...source.previousSlugs])].filter(
+      (slug) => slug !== target.slug
+    );
+    target.updatedAt = new Date().toISOString();
+
+    // Re-tag, redirect and delete in one transaction, so readers never see a partial merge
+    let modifiedCount = 0;
+    await mongoose.connection.transaction(async (session) => {
+      ({ modifiedCount } = await BlogPost.updateMany({ tags: source._id }, retag, { session }));
+      await target.save({ session });
+      await source.deleteOne({ session });
+    });
+    // A post saved with the tag while the transaction ran is outside its snapshot; a second pass catches it
+    modifiedCount += (await BlogPost.updateMany({ tags: source._id }, retag)).modifiedCount;
+
+    await invalidateSitemaps();
+    await invalidateCache(["tags:list", "blogs:list", `tag:${source._id}`, `tag:${target._id}`]);
+
+    logger.info(`Tag ${source.name} merged into ${target.name} (${modifiedCount} posts updated)`);
+    res.status(200).json({
+      success: true,
+      data: target,
+      updatedPosts: modifiedCount,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // Delete tag (Admin only)
 export const deleteTag = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -103,6 +202,8 @@ export const deleteTag = async (req: Request, res: Response, next: NextFunction)
     }
 
     await tag.deleteOne();
+    await invalidateSitemaps();
+    await invalidateCache(["tags:list", `tag:${id}`]);
 
     logger.info(`Tag deleted: ${tag.name}`);
     res.status(200).json({
@@ -114,13 +215,44 @@ export const deleteTag = async (req: Request, res: Response, next: NextFunction)
   }
 };
 
-// Get all tags (Public)
+// Get all tags with their published post counts (Public)
 export const getTags = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const tags = await Tag.find();
+    const [tags, usage] = await Promise.all([Tag.find(), countTagUsage()]);
+    res.status(200).json({
+      success: true,
+      data: tags.map((tag) => ({ ...tag.toObject(), postCount: usage.get(String(tag._id)) ?? 0 })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Tags whose name or slug starts with the query, most used first, for editor autocomplete (Public)
+export const autocompleteTags = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { q, limit } = autocompleteSchema.parse(req.query);
+    const slugPrefix = toSlug(q);
+
+    const tags = await Tag.find({
+      $or: [
+        { name: { $regex: `^${escapeRegExp(q)}`, $options: "i" } },
+        ...(slugPrefix ? [{ slug: { $regex: `^${escapeRegExp(slugPrefix)}` } }] : []),
+      ],
+    })
+      .select("name slug")
+      .limit(100) // Rank a bounded set of matches by usage
+      .lean();
+
+    const usage = await countTagUsage(tags.map((tag) => tag._id as mongoose.Types.ObjectId));
+    const data = tags
+      .map((tag) => ({ ...tag, postCount: usage.get(String(tag._id)) ?? 0 }))
+      .sort((a, b) => b.postCount - a.postCount || a.name.localeCompare(b.name))
+      .slice(0, limit);
+
     res.status(200).json({
       success: true,
-      data: tags,
+      data,
     });
   } catch (error) {
     next(error);
@@ -136,6 +268,9 @@ export const getTag = async (req: Request, res: Response, next: NextFunction) =>
     });
 
     if (!tag) {
+      // Renamed or merged-away slugs point at the tag that replaced them
+      const renamed = await findByPreviousSlug(Tag, idOrSlug!);
+      if (renamed) return sendSlugRedirect(req, res, renamed.slug);
       throw new CustomError("Tag not found", { statusCode: 404 });
     }
 
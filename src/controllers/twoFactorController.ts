@@ -0,0 +1,290 @@
+import { Request, Response, NextFunction } from "express";
+import bcrypt from "bcrypt";
+import { z } from "zod";
+import env from "../config/env";
+import { User, IUser } from "../models";
+import { AuthRequest } from "../types";
+import CustomError from "../utils/customError";
+import { logger } from "../utils/logger";
+import { peekToken, consumeToken, recordTokenFailure } from "../utils/oneTimeTokens";
+import { TokenDelivery } from "../utils/authCookies";
+import { completeLogin } from "../utils/accounts";
+import { revokeAllSessions } from "../utils/authTokens";
+import { generateTotpSecret, buildOtpAuthUri, verifyTotp } from "../utils/totp";
+import { generateRecoveryCodes, verifySecondFactor, isTwoFactorRequired } from "../utils/twoFactor";
+import { checkLoginAllowed, recordLoginFailure, clearAccountFailures } from "../utils/loginThrottle";
+
+const SECRET_FIELDS = "+twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodes";
+const MAX_CHALLENGE_FAILURES = 5; // Wrong codes before a challenge is revoked and the password must be re-entered
+
+// Zod schemas for validation
+const codeSchema = z.string().regex(/^\d{6}$/, "Code must be 6 digits");
+
+const secondFactorSchema = z
+  .object({
+    code: codeSchema.optional(),
+    recoveryCode: z.string().min(1).optional(),
+  })
+  .refine((val) => !!val.code !== !!val.recoveryCode, { message: "Provide either code or recoveryCode" });
+
+const verifyLoginSchema = z.intersection(
+  z.object({ challengeToken: z.string().min(1, "Challenge token is required") }),
+  secondFactorSchema
+);
+
+const enableSchema = z.object({
+  code: codeSchema,
+});
+
+const enrollmentSchema = z.object({
+  enrollmentToken: z.string().min(1, "Enrollment token is required"),
+});
+
+const enrollmentEnableSchema = enrollmentSchema.extend({
+  code: codeSchema,
+});
+
+const disableSchema = z.intersection(
+  z.object({ password: z.string().min(1, "Password is required") }),
+  secondFactorSchema
+);
+
+// Payload behind challenge and enrollment tokens
+interface PendingLogin {
+  userId: string;
+  tokenDelivery: TokenDelivery;
+}
+
+const findUserWithSecrets = async (id: string) => {
+  const user = await User.findById(id).select(SECRET_FIELDS);
+  if (!user || user.status !== "active") {
+    throw new CustomError("Not authorized", { statusCode: 401 });
+  }
+  return user;
+};
+
+// Generate a pending secret and its provisioning URI
+const startSetup = async (user: IUser) => {
+  if (user.twoFactor?.enabled) {
+    throw new CustomError("Two-factor authentication is already enabled", { statusCode: 400 });
+  }
+
+  const secret = generateTotpSecret();
+  user.set("twoFactor.pendingSecret", secret);
+  await user.save();
+
+  return { secret, otpauthUri: buildOtpAuthUri(secret, user.email, env.SITE_NAME) };
+};
+
+// Confirm the pending secret with a code, enable 2FA and return fresh recovery codes
+const finishSetup = async (user: IUser, code: string) => {
+  const pendingSecret = user.twoFactor?.pendingSecret;
+  if (!pendingSecret) {
+    throw new CustomError("Start two-factor setup first", { statusCode: 400 });
+  }
+  const step = verifyTotp(pendingSecret, code);
+  if (step === null) {
+    throw new CustomError("Invalid verification code", { statusCode: 400 });
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  user.set("twoFactor", {
+    enabled: true,
+    secret: pendingSecret,
+    recoveryCodes: hashes,
+    lastUsedStep: step,
+    enabledAt: new Date().toISOString(),
+  });
+  user.updatedAt = new Date().toISOString();
+  await user.save();
+
+  logger.info(`Two-factor authentication enabled: ${user.email}`);
+  return codes;
+};
+
+// Second login step: verify a TOTP or recovery code against the challenge from /login
+export const verifyTwoFactorLogin = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { challengeToken, code, recoveryCode } = verifyLoginSchema.parse(req.body);
+
+    const pending = await peekToken<PendingLogin>("2fa-challenge", challengeToken);
+    if (!pending) {
+      throw new CustomError("Invalid or expired challenge", { statusCode: 401 });
+    }
+    const user = await findUserWithSecrets(pending.userId);
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const attempt = { email: user.email, ip: req.ip ?? "unknown" };
+    const lockout = await checkLoginAllowed(attempt);
+    if (lockout) {
+      res.set("Retry-After", String(lockout.retryAfterSeconds));
+      throw new CustomError("Too many failed login attempts, try again later", { statusCode: 429, details: lockout });
+    }
+    if (!verifySecondFactor(user, { code, recoveryCode })) {
+      const status = await recordLoginFailure(attempt);
+      const challengeAttemptsLeft = await recordTokenFailure("2fa-challenge", challengeToken, MAX_CHALLENGE_FAILURES);
+      logger.info(`Failed 2FA verification for ${user.email} from ${attempt.ip}`);
+      if (challengeAttemptsLeft === 0 && !status.locked) {
+        throw new CustomError("Too many invalid codes, sign in again", { statusCode: 401, details: status });
+      }
+      if (status.locked) res.set("Retry-After", String(status.retryAfterSeconds));
+      throw new CustomError("Invalid verification code", { statusCode: status.locked ? 429 : 401, details: status });
+    }
+
+    // Redeem the challenge only once the code is right; a concurrent redemption loses
+    if (!(await consumeToken<PendingLogin>("2fa-challenge", challengeToken))) {
+      throw new CustomError("Invalid or expired challenge", { statusCode: 401 });
+    }
+    await clearAccountFailures(user.email);
+    if (recoveryCode) {
+      logger.warn(`Recovery code used by ${user.email}; ${user.twoFactor.recoveryCodes.length} remaining`);
+    }
+
+    await completeLogin(req, res, user, pending.tokenDelivery, {
+      recoveryCodesRemaining: user.twoFactor.recoveryCodes.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Start 2FA setup for the current user
+export const setupTwoFactor = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const user = await findUserWithSecrets(req.user!.id);
+    const provisioning = await startSetup(user);
+
+    res.status(200).json({
+      success: true,
+      data: provisioning,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Confirm 2FA setup for the current user; recovery codes are shown only in this response
+export const enableTwoFactor = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { code } = enableSchema.parse(req.body);
+    const user = await findUserWithSecrets(req.user!.id);
+    const recoveryCodes = await finishSetup(user, code);
+
+    res.status(200).json({
+      success: true,
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Start required 2FA setup during login, using the enrollment token from /login
+export const setupTwoFactorEnrollment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { enrollmentToken } = enrollmentSchema.parse(req.body);
+    const pending = await peekToken<PendingLogin>("2fa-enrollment", enrollmentToken);
+    if (!pending) {
+      throw new CustomError("Invalid or expired enrollment token", { statusCode: 401 });
+    }
+
+    const user = await findUserWithSecrets(pending.userId);
+    const provisioning = await startSetup(user);
+
+    res.status(200).json({
+      success: true,
+      data: provisioning,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Finish required 2FA setup during login and complete the login
+export const enableTwoFactorEnrollment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { enrollmentToken, code } = enrollmentEnableSchema.parse(req.body);
+    const pending = await peekToken<PendingLogin>("2fa-enrollment", enrollmentToken);
+    if (!pending) {
+      throw new CustomError("Invalid or expired enrollment token", { statusCode: 401 });
+    }
+
+    const user = await findUserWithSecrets(pending.userId);
+    const recoveryCodes = await finishSetup(user, code);
+    await consumeToken("2fa-enrollment", enrollmentToken);
+    await clearAccountFailures(user.email);
+
+    await completeLogin(req, res, user, pending.tokenDelivery, { data: { recoveryCodes } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace the current user's recovery codes (requires a valid code)
+export const regenerateRecoveryCodes = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { code } = enableSchema.parse(req.body);
+    const user = await findUserWithSecrets(req.user!.id);
+    if (!verifySecondFactor(user, { code })) {
+      throw new CustomError("Invalid verification code", { statusCode: 400 });
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    user.set("twoFactor.recoveryCodes", hashes);
+    await user.save();
+
+    logger.info(`Recovery codes regenerated: ${user.email}`);
+    res.status(200).json({
+      success: true,
+      data: { recoveryCodes: codes },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Turn off 2FA for the current user (requires password and a code), unless their role requires it
+export const disableTwoFactor = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { password, code, recoveryCode } = disableSchema.parse(req.body);
+    const user = await User.findById(req.user!.id).select(`+passwordHash ${SECRET_FIELDS}`);
+    if (!user) {
+      throw new CustomError("Password is incorrect", { statusCode: 401 });
+    }
+
+    // Wrong passwords and codes count towards the login lockout, so a stolen session cannot guess them
+    const attempt = { email: user.email, ip: req.ip ?? "unknown" };
+    const lockout = await checkLoginAllowed(attempt);
+    if (lockout) {
+      res.set("Retry-After", String(lockout.retryAfterSeconds));
+      throw new CustomError("Too many failed login attempts, try again later", { statusCode: 429, details: lockout });
+    }
+    if (!(await bcrypt.compare(password, user.passwordHash))) {
+      const status = await recordLoginFailure(attempt);
+      logger.info(`Failed password confirmation to disable 2FA for ${user.email} from ${attempt.ip}`);
+      if (status.locked) res.set("Retry-After", String(status.retryAfterSeconds));
+      throw new CustomError("Password is incorrect", { statusCode: status.locked ? 429 : 401, details: status });
+    }
+    if (await isTwoFactorRequired(user.role)) {
+      throw new CustomError(`Two-factor authentication is required for the ${user.role} role`, { statusCode: 400 });
+    }
+    if (!verifySecondFactor(user, { code, recoveryCode })) {
+      const status = await recordLoginFailure(attempt);
+      if (status.locked) res.set("Retry-After", String(status.retryAfterSeconds));
+      throw new CustomError("Invalid verification code", { statusCode: status.locked ? 429 : 400, details: status });
+    }
+
+    user.set("twoFactor", { enabled: false, recoveryCodes: [] });
+    user.updatedAt = new Date().toISOString();
+    await user.save();
+    await revokeAllSessions(String(user._id), req.user!.sessionId);
+
+    logger.info(`Two-factor authentication disabled: ${user.email}`);
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication disabled",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,203 @@
+import { Response, NextFunction } from "express";
+import { z } from "zod";
+import mongoose from "mongoose";
+import validator from "validator";
+import { User, USER_ROLES } from "../models";
+import { AuthRequest } from "../types";
+import CustomError from "../utils/customError";
+import { logger } from "../utils/logger";
+import { revokeAllSessions } from "../utils/authTokens";
+import { normalizeEmail, createInviteLink, createPasswordResetLink } from "../utils/accounts";
+import { unlockLogin } from "../utils/loginThrottle";
+
+// Zod schemas for validation
+const listUsersSchema = z.object({
+  role: z.enum(USER_ROLES).optional(),
+  status: z.enum(["active", "disabled"]).optional(),
+});
+
+const updateUserSchema = z.object({
+  role: z.enum(USER_ROLES).optional(),
+  status: z.enum(["active", "disabled"]).optional(),
+});
+
+const inviteSchema = z.object({
+  email: z.string().email("Invalid email format"),
+  role: z.enum(USER_ROLES).default("contributor"),
+});
+
+const unlockIpSchema = z.object({
+  ip: z.string().refine((val) => validator.isIP(val), { message: "Invalid IP address" }),
+});
+
+const findUserOrThrow = async (id: string | undefined) => {
+  const user = mongoose.isValidObjectId(id) ? await User.findById(id) : null;
+  if (!user) {
+    throw new CustomError("User not found", { statusCode: 404 });
+  }
+  return user;
+};
+
+// List user accounts (Admin only)
+export const listUsers = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { role, status } = listUsersSchema.parse(req.query);
+
+    const users = await User.find({ ...(role ? { role } : {}), ...(status ? { status } : {}) }).sort({ createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: users,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a single user account (Admin only)
+export const getUser = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const user = await findUserOrThrow(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Change a user's role or enable/disable the account (Admin only)
+export const updateUser = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { role, status } = updateUserSchema.parse(req.body);
+    const user = await findUserOrThrow(req.params.id);
+
+    if (String(user._id) === req.user!.id && status === "disabled") {
+      throw new CustomError("You cannot disable your own account", { statusCode: 400 });
+    }
+
+    // Never leave the site without an active admin
+    const losesAdmin = user.role === "admin" && user.status === "active" && ((role && role !== "admin") || status === "disabled");
+    if (losesAdmin) {
+      const otherAdmins = await User.countDocuments({ _id: { $ne: user._id }, role: "admin", status: "active" });
+      if (otherAdmins === 0) {
+        throw new CustomError("Cannot demote or disable the last active admin", { statusCode: 400 });
+      }
+    }
+
+    const roleChanged = role !== undefined && role !== user.role;
+    if (role) user.role = role;
+    if (status) user.status = status;
+    user.updatedAt = new Date().toISOString();
+    await user.save();
+
+    // End every session so the new role or status applies from the next login
+    if (roleChanged || status === "disabled") {
+      await revokeAllSessions(String(user._id));
+    }
+
+    logger.info(`User updated: ${user.email} (${user.role}, ${user.status})`);
+    res.status(200).json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Invite a new team member by email with a role (Admin only)
+export const inviteUser = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { email, role } = inviteSchema.parse(req.body);
+    const sanitizedEmail = normalizeEmail(email);
+
+    if (await User.exists({ email: sanitizedEmail })) {
+      throw new CustomError("An account with this email already exists", { statusCode: 400 });
+    }
+
+    const invite = await createInviteLink({ email: sanitizedEmail, role, invitedBy: req.user!.id });
+
+    logger.info(`Invite issued: ${sanitizedEmail} (${role})`);
+    res.status(201).json({
+      success: true,
+      data: { email: sanitizedEmail, role, ...invite },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Issue a password reset link for a user, to be handed over out of band (Admin only)
+export const issuePasswordReset = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const user = await findUserOrThrow(req.params.id);
+    if (user.status !== "active") {
+      throw new CustomError("User account is disabled", { statusCode: 400 });
+    }
+
+    const link = await createPasswordResetLink(user);
+
+    logger.info(`Password reset issued by admin for: ${user.email}`);
+    res.status(201).json({
+      success: true,
+      data: link,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Lift a login lockout on a user's account (Admin only)
+export const unlockUser = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const user = await findUserOrThrow(req.params.id);
+    const unlocked = await unlockLogin("account", user.email);
+
+    logger.info(`Login unlocked for ${user.email} by ${req.user!.username}`);
+    res.status(200).json({
+      success: true,
+      message: unlocked ? "Account unlocked successfully" : "Account was not locked",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Lift a login lockout on an IP address (Admin only)
+export const unlockIp = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { ip } = unlockIpSchema.parse(req.params);
+    const unlocked = await unlockLogin("ip", ip);
+
+    logger.info(`Login unlocked for IP ${ip} by ${req.user!.username}`);
+    res.status(200).json({
+      success: true,
+      message: unlocked ? "IP unlocked successfully" : "IP was not locked",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Turn off 2FA for a user who lost their device and recovery codes; they must log in again (Admin only)
+export const resetUserTwoFactor = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const user = await findUserOrThrow(req.params.id);
+
+    user.set("twoFactor", { enabled: false, recoveryCodes: [] });
+    user.updatedAt = new Date().toISOString();
+    await user.save();
+    await revokeAllSessions(String(user._id));
+
+    logger.warn(`Two-factor authentication reset for ${user.email} by ${req.user!.username}`);
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication reset successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
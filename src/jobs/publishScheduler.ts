@@ -0,0 +1,177 @@
+import { redisClient } from "../config/redis";
+import env from "../config/env";
+import { BlogPost, IBlogPost } from "../models";
+import { logger } from "../utils/logger";
+import { invalidateSitemaps } from "../utils/sitemap";
+import { invalidateCache } from "../utils/responseCache";
+
+type ScheduleAction = "publish" | "unpublish" | "archive";
+
+const QUEUE_KEY = "schedule:blogs"; // Sorted set of `${action}:${blogId}` scored by due time (ms)
+const BATCH_SIZE = 50;
+const LEASE_MS = 60_000; // How long a claimed job is hidden from other instances before it is due again
+
+// Claim a due job by pushing its score past the lease, only if it is still due (another instance may
+// have claimed or rescheduled it). A job whose runner dies comes due again when the lease runs out.
+const CLAIM_SCRIPT = `
+local score = redis.call("ZSCORE", KEYS[1], ARGV[1])
+if not score or tonumber(score) > tonumber(ARGV[2]) then return 0 end
+redis.call("ZADD", KEYS[1], ARGV[3], ARGV[1])
+return 1
+`;
+
+// Finish a claimed job: remove it, or move it to ARGV[3] for a retry, unless it was rescheduled
+// (its score changed) while it ran
+const SETTLE_SCRIPT = `
+local score = redis.call("ZSCORE", KEYS[1], ARGV[1])
+if not score or tonumber(score) ~= tonumber(ARGV[2]) then return 0 end
+if ARGV[3] == "" then
+  redis.call("ZREM", KEYS[1], ARGV[1])
+else
+  redis.call("ZADD", KEYS[1], ARGV[3], ARGV[1])
+end
+return 1
+`;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+const member = (action: ScheduleAction, blogId: string) => `${action}:${blogId}`;
+
+// Queue (or move) a job; ZADD overwrites the score of an existing member
+const scheduleJob = async (action: ScheduleAction, blogId: string, at: string) => {
+  await redisClient.zAdd(QUEUE_KEY, { score: Date.parse(at), value: member(action, blogId) });
+};
+
+const cancelJob = async (action: ScheduleAction, blogId: string) => {
+  await redisClient.zRem(QUEUE_KEY, member(action, blogId));
+};
+
+// Mirror a blog's scheduling state from MongoDB (the source of truth) into the Redis queue
+const syncBlogSchedule = async (blog: IBlogPost) => {
+  const blogId = String(blog._id);
+
+  if (blog.status === "scheduled" && blog.publishedAt) {
+    await scheduleJob("publish", blogId, blog.publishedAt);
+  } else {
+    await cancelJob("publish", blogId);
+  }
+
+  const transition = blog.status === "published" ? blog.scheduledTransition : undefined;
+  for (const action of ["unpublish", "archive"] as const) {
+    if (transition && transition.action === action) {
+      await scheduleJob(action, blogId, transition.at);
+    } else {
+      await cancelJob(action, blogId);
+    }
+  }
+};
+
+const cancelBlogSchedule = async (blogId: string) => {
+  await redisClient.zRem(QUEUE_KEY, [member("publish", blogId), member("unpublish", blogId), member("archive", blogId)]);
+};
+
+// Apply a due job. The conditional update makes a stale or repeated job a no-op.
+const runJob = async (action: ScheduleAction, blogId: string) => {
+  const now = new Date().toISOString();
+
+  const blog =
+    action === "publish"
+      ? await BlogPost.findOneAndUpdate(
+          { _id: blogId, status: "scheduled", publishedAt: { $lte: now } },
+          { $set: { status: "published", updatedAt: now } },
+          { new: true }
+        )
+      : await BlogPost.findOneAndUpdate(
+          {
+            _id: blogId,
+            status: "published",
+            "scheduledTransition.action": action,
+            "scheduledTransition.at": { $lte: now },
+          },
+          {
+            $set: { status: action === "archive" ? "archived" : "draft", updatedAt: now },
+            $unset: { scheduledTransition: 1 },
+          },
+          { new: true }
+        );
+
+  if (blog) {
+    await invalidateSitemaps();
+    await invalidateCache(["blogs:list", `blog:${blogId}`]);
+    logger.info(`Scheduled ${action} applied to blog: ${blog.title}`);
+  } else {
+    logger.debug(`Scheduled ${action} for blog ${blogId} skipped (no longer applicable)`);
+  }
+};
+
+// Claim and run every due job. The claim succeeds for exactly one instance, and the job stays queued
+// under its lease until it has been applied, so a crash mid-run delays it rather than losing it.
+const processDueJobs = async () => {
+  if (running) return;
+  running = true;
+
+  try {
+    const now = Date.now();
+    const due = await redisClient.zRangeByScore(QUEUE_KEY, 0, now, {
+      LIMIT: { offset: 0, count: BATCH_SIZE },
+    });
+
+    for (const entry of due) {
+      const lease = String(Date.now() + LEASE_MS);
+      const claimed = await redisClient.eval(CLAIM_SCRIPT, {
+        keys: [QUEUE_KEY],
+        arguments: [entry, String(now), lease],
+      });
+      if (claimed !== 1) continue;
+
+      const [action, blogId] = entry.split(":") as [ScheduleAction, string];
+      let retryAt = "";
+      try {
+        await runJob(action, blogId);
+      } catch (error) {
+        retryAt = String(Date.now()); // Retried on the next tick
+        logger.error(`Scheduled ${action} for blog ${blogId} failed: ${error}`);
+      }
+      await redisClient.eval(SETTLE_SCRIPT, { keys: [QUEUE_KEY], arguments: [entry, lease, retryAt] });
+    }
+  } catch (error) {
+    logger.error(`Publish scheduler tick failed: ${error}`);
+  } finally {
+    running = false;
+  }
+};
+
+// Rebuild the queue from MongoDB so jobs survive Redis data loss and crashes between claim and apply
+const reconcileSchedule = async () => {
+  const blogs = await BlogPost.find({
+    $or: [{ status: "scheduled" }, { status: "published", scheduledTransition: { $exists: true } }],
+  }).select("status publishedAt scheduledTransition");
+
+  for (const blog of blogs) {
+    await syncBlogSchedule(blog);
+  }
+
+  logger.info(`Publish scheduler reconciled ${blogs.length} scheduled blogs`);
+};
+
+const startPublishScheduler = async () => {
+  await reconcileSchedule();
+  timer = setInterval(processDueJobs, env.SCHEDULER_INTERVAL_MS);
+  timer.unref();
+  logger.info(`Publish scheduler started (every ${env.SCHEDULER_INTERVAL_MS}ms)`);
+};
+
+const stopPublishScheduler = () => {
+  if (timer) clearInterval(timer);
+  timer = null;
+};
+
+export {
+  ScheduleAction,
+  syncBlogSchedule,
+  cancelBlogSchedule,
+  startPublishScheduler,
+  stopPublishScheduler,
+  processDueJobs,
+};
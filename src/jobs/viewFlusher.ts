@@ -0,0 +1,36 @@
+import env from "../config/env";
+import { logger } from "../utils/logger";
+import { flushViews } from "../utils/viewCounter";
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Write views counted in Redis to MongoDB; a failed flush keeps its views pending for the next tick
+const flushPendingViews = async () => {
+  if (running) return;
+  running = true;
+
+  try {
+    const written = await flushViews();
+    if (written > 0) logger.debug(`Flushed ${written} blog views`);
+  } catch (error) {
+    logger.error(`View flush failed: ${error}`);
+  } finally {
+    running = false;
+  }
+};
+
+const startViewFlusher = () => {
+  timer = setInterval(flushPendingViews, env.VIEW_FLUSH_INTERVAL_MS);
+  timer.unref();
+  logger.info(`View flusher started (every ${env.VIEW_FLUSH_INTERVAL_MS}ms)`);
+};
+
+// Stop the timer and flush what is still pending, e.g. on shutdown
+const stopViewFlusher = async () => {
+  if (timer) clearInterval(timer);
+  timer = null;
+  await flushPendingViews();
+};
+
+export { startViewFlusher, stopViewFlusher, flushPendingViews };
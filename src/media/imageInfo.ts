@@ -0,0 +1,75 @@
+// Accepted upload formats, recognised by their leading bytes rather than the client's Content-Type.
+// SVG is deliberately absent: it can carry script.
+const FORMATS = [
+  { mimeType: "image/jpeg", extension: "jpg", matches: (b: Buffer) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  {
+    mimeType: "image/png",
+    extension: "png",
+    matches: (b: Buffer) => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  { mimeType: "image/gif", extension: "gif", matches: (b: Buffer) => /^GIF8[79]a/.test(b.toString("latin1", 0, 6)) },
+  {
+    mimeType: "image/webp",
+    extension: "webp",
+    matches: (b: Buffer) => b.toString("latin1", 0, 4) === "RIFF" && b.toString("latin1", 8, 12) === "WEBP",
+  },
+] as const;
+
+type ImageMimeType = (typeof FORMATS)[number]["mimeType"];
+
+interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+// Identify an upload from its contents; null when it is not an accepted format
+const sniffImageType = (data: Buffer) => {
+  const format = FORMATS.find((candidate) => data.length >= 12 && candidate.matches(data));
+  return format ? { mimeType: format.mimeType as ImageMimeType, extension: format.extension } : null;
+};
+
+// JPEG stores dimensions in its start-of-frame segment, somewhere after the metadata segments
+const jpegDimensions = (data: Buffer): ImageDimensions | null => {
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1]!;
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC), which share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+};
+
+const webpDimensions = (data: Buffer): ImageDimensions | null => {
+  const chunk = data.toString("latin1", 12, 16);
+  if (chunk === "VP8X" && data.length >= 30) {
+    return { width: 1 + data.readUIntLE(24, 3), height: 1 + data.readUIntLE(27, 3) };
+  }
+  if (chunk === "VP8 " && data.length >= 30) {
+    return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === "VP8L" && data.length >= 25) {
+    const bits = data.readUInt32LE(21);
+    return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+  }
+  return null;
+};
+
+// Read pixel dimensions from the file header without decoding the image
+const readImageDimensions = (data: Buffer, mimeType: ImageMimeType): ImageDimensions | null => {
+  switch (mimeType) {
+    case "image/png":
+      return data.length >= 24 ? { width: data.readUInt32BE(16), height: data.readUInt32BE(20) } : null;
+    case "image/gif":
+      return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+    case "image/jpeg":
+      return jpegDimensions(data);
+    case "image/webp":
+      return webpDimensions(data);
+  }
+};
+
+export { ImageMimeType, ImageDimensions, sniffImageType, readImageDimensions };
@@ -0,0 +1,18 @@
+import env from "../config/env";
+import { StorageDriver } from "./types";
+import { localStorage } from "./localStorage";
+
+// Available drivers, selected with MEDIA_STORAGE
+const DRIVERS: Record<typeof env.MEDIA_STORAGE, StorageDriver> = {
+  local: localStorage,
+};
+
+const getStorageDriver = () => DRIVERS[env.MEDIA_STORAGE];
+
+// The driver that stored a media item, which may differ from the current one after a switch
+const getStorageDriverByName = (name: string) => Object.values(DRIVERS).find((driver) => driver.name === name);
+
+export { getStorageDriver, getStorageDriverByName };
+export * from "./types";
+export { sniffImageType, readImageDimensions, ImageMimeType, ImageDimensions } from "./imageInfo";
+export { generateVariants, VARIANT_WIDTHS } from "./variants";
@@ -0,0 +1,36 @@
+import fs from "fs/promises";
+import path from "path";
+import env from "../config/env";
+import { StorageDriver } from "./types";
+
+const root = () => path.resolve(env.MEDIA_LOCAL_DIR);
+
+// Resolve a key inside the upload directory, refusing anything that would escape it
+const resolveKey = (key: string) => {
+  const file = path.resolve(root(), key);
+  if (!file.startsWith(root() + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return file;
+};
+
+// Files on the local disk under MEDIA_LOCAL_DIR, served by the app at MEDIA_PUBLIC_URL
+const localStorage: StorageDriver = {
+  name: "local",
+
+  async put(key, data) {
+    const file = resolveKey(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  },
+
+  async delete(key) {
+    await fs.rm(resolveKey(key), { force: true });
+  },
+
+  url(key) {
+    return `${env.MEDIA_PUBLIC_URL.replace(/\/$/, "")}/${key}`;
+  },
+};
+
+export { localStorage };
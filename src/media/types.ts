@@ -0,0 +1,10 @@
+// Where uploaded files live. Keys are generated by the media library ("<yyyy>/<mm>/<id>/<name>.<ext>");
+// drivers map them to their own storage and to the public URL the file is served from.
+interface StorageDriver {
+  name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>; // Succeeds when the file is already gone
+  url(key: string): string;
+}
+
+export { StorageDriver };
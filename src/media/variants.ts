@@ -0,0 +1,65 @@
+import sharp, { Sharp } from "sharp";
+import { logger } from "../utils/logger";
+import { ImageDimensions, ImageMimeType } from "./imageInfo";
+
+// Widths of the resized renditions generated for each upload; only widths below the original are produced
+const VARIANT_WIDTHS = {
+  thumbnail: 150,
+  medium: 640,
+  large: 1280,
+} as const;
+
+// Larger images are stored without variants rather than tying up the resize threads
+const MAX_PIXELS = 50_000_000;
+
+interface GeneratedVariant {
+  name: keyof typeof VARIANT_WIDTHS;
+  data: Buffer;
+  mimeType: ImageMimeType;
+  width: number;
+  height: number;
+}
+
+// Re-encode in the upload's own format, so a variant can replace the original wherever it is used
+const encode = (image: Sharp, mimeType: ImageMimeType) => {
+  switch (mimeType) {
+    case "image/jpeg":
+      return image.jpeg({ quality: 82, mozjpeg: true });
+    case "image/png":
+      return image.png({ compressionLevel: 9 });
+    case "image/webp":
+      return image.webp({ quality: 82 });
+    case "image/gif":
+      return image.gif();
+  }
+};
+
+// Resized renditions of an image, smallest first. Decoding and resizing run on libvips threads, off
+// the event loop; animated GIF and WebP keep every frame. A corrupt image is still stored, without variants.
+const generateVariants = async (data: Buffer, mimeType: ImageMimeType, dimensions: ImageDimensions) => {
+  const wanted = Object.entries(VARIANT_WIDTHS).filter(([, width]) => width < dimensions.width);
+
+  try {
+    const variants = await Promise.all(
+      wanted.map(async ([name, width]) => {
+        const image = sharp(data, { animated: true, limitInputPixels: MAX_PIXELS })
+          .rotate() // Apply EXIF orientation, which the re-encoded file no longer carries
+          .resize({ width, withoutEnlargement: true });
+        const { data: resized, info } = await encode(image, mimeType).toBuffer({ resolveWithObject: true });
+        return {
+          name: name as GeneratedVariant["name"],
+          data: resized,
+          mimeType,
+          width: info.width,
+          height: info.pageHeight ?? info.height, // Animated images report every frame stacked
+        };
+      })
+    );
+    return variants;
+  } catch (error) {
+    logger.warn(`Failed to generate image variants: ${error}`);
+    return [];
+  }
+};
+
+export { VARIANT_WIDTHS, GeneratedVariant, generateVariants };
@@ -1,11 +1,13 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import env from "../config/env";
-import { AuthRequest } from "../types";
+import { AuthRequest, UserRole } from "../types";
 import CustomError from "../utils/customError";
+import { Permission, hasPermission } from "../utils/permissions";
+import { sessionExists } from "../utils/authTokens";
 
-// Protect middleware for authenticated routes
-export const protect = (req: AuthRequest, res: Response, next: NextFunction) => {
+// Resolve the user of the request's Bearer token, or throw why it cannot be trusted
+const authenticate = async (req: Request): Promise<NonNullable<AuthRequest["user"]>> => {
   let token: string | undefined;
 
   // Check for Bearer token in Authorization header
@@ -14,27 +16,66 @@ export const protect = (req: AuthRequest, res: Response, next: NextFunction) =>
   }
 
   if (!token) {
-    return next(new CustomError("Not authorized, no token", { statusCode: 401 }));
+    throw new CustomError("Not authorized, no token", { statusCode: 401 });
   }
 
+  let decoded: { id: string; username: string; role: UserRole; sid?: string };
   try {
     // Verify token
-    const decoded = jwt.verify(token, env.JWT_SECRET) as { id: string; username: string };
-
-    // Attach user to request
-    req.user = {
-      id: decoded.id,
-      username: decoded.username
-    };
-
-    next();
+    decoded = jwt.verify(token, env.JWT_SECRET) as typeof decoded;
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
-      return next(new CustomError("Token expired", { statusCode: 401 }));
+      throw new CustomError("Token expired", { statusCode: 401 });
     } else if (error instanceof jwt.JsonWebTokenError) {
-      return next(new CustomError("Invalid token", { statusCode: 401 }));
+      throw new CustomError("Invalid token", { statusCode: 401 });
     } else {
-      return next(new CustomError("Not authorized", { statusCode: 401 }));
+      throw new CustomError("Not authorized", { statusCode: 401 });
     }
   }
-};
\ No newline at end of file
+
+  // Access tokens die with their session (logout, revocation, refresh token reuse)
+  if (!decoded.sid || !(await sessionExists(decoded.sid))) {
+    throw new CustomError("Session has been revoked", { statusCode: 401 });
+  }
+
+  return {
+    id: decoded.id,
+    username: decoded.username,
+    role: decoded.role,
+    sessionId: decoded.sid,
+  };
+};
+
+// Protect middleware for authenticated routes
+export const protect = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    // Attach user to request
+    req.user = await authenticate(req);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Attach the user when a valid token is sent, for public routes that show more to signed-in staff.
+// A missing or unusable token just leaves the request anonymous.
+export const optionalAuth = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (req.headers.authorization) {
+    try {
+      req.user = await authenticate(req);
+    } catch {
+      // Anonymous
+    }
+  }
+  next();
+};
+
+// Require every listed permission for the authenticated user's role (use after protect)
+export const authorize =
+  (...permissions: Permission[]) =>
+  (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!permissions.every((permission) => hasPermission(req.user, permission))) {
+      return next(new CustomError("You do not have permission to perform this action", { statusCode: 403 }));
+    }
+    next();
+  };
@@ -0,0 +1,118 @@
+import { Request, Response, NextFunction } from "express";
+import { logger } from "../utils/logger";
+import {
+  CacheNamespace,
+  CachedResponse,
+  REPLAYED_HEADERS,
+  listTag,
+  getCachedResponse,
+  setCachedResponse,
+  acquireRebuildLock,
+  releaseRebuildLock,
+  collectResponseTags,
+} from "../utils/responseCache";
+
+const LOCK_TTL_MS = 5000; // Upper bound on how long a rebuild may hold the lock
+const WAIT_TIMEOUT_MS = 2000; // How long other requests wait for the rebuild before querying themselves
+const WAIT_INTERVAL_MS = 50;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Cache key from the route and its query, with parameters sorted so equivalent URLs share an entry
+const cacheKey = (req: Request) => {
+  const params = new URLSearchParams();
+  for (const name of Object.keys(req.query).sort()) {
+    const value = req.query[name];
+    for (const item of Array.isArray(value) ? value : [value]) params.append(name, String(item));
+  }
+  return `${req.baseUrl}${req.path}?${params.toString()}`;
+};
+
+const sendCached = (res: Response, cached: CachedResponse) => {
+  res.set({ ...cached.headers, "X-Cache": "HIT" }).status(cached.status).send(cached.body);
+};
+
+interface CacheOptions {
+  detail?: boolean; // A single entity: purged through its entity tags only, not by every write to the namespace
+  dependsOn?: CacheNamespace[]; // Other namespaces whose writes must also purge a list (e.g. post counts)
+}
+
+// Cache successful public GET responses in Redis, tagged for precise invalidation. Lists carry their
+// namespace's list tag; every response carries the entity tags found in its JSON body, plus any the
+// handler puts in res.locals.cacheTags (e.g. for a non-JSON export).
+export const cacheResponse =
+  (namespace: CacheNamespace, ttl: number, { detail = false, dependsOn = [] }: CacheOptions = {}) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    // Authenticated requests may see unpublished data, so never serve or store them from the shared cache
+    if (req.method !== "GET" || req.headers.authorization) {
+      res.set("X-Cache", "BYPASS");
+      return next();
+    }
+
+    const key = cacheKey(req);
+    let locked = false;
+
+    try {
+      const cached = await getCachedResponse(key);
+      if (cached) return sendCached(res, cached);
+
+      locked = await acquireRebuildLock(key, LOCK_TTL_MS);
+      if (!locked) {
+        // Another request is rebuilding this key; wait briefly for its result
+        for (let waited = 0; waited < WAIT_TIMEOUT_MS; waited += WAIT_INTERVAL_MS) {
+          await sleep(WAIT_INTERVAL_MS);
+          const rebuilt = await getCachedResponse(key);
+          if (rebuilt) return sendCached(res, rebuilt);
+        }
+      }
+    } catch (error) {
+      // The cache is an optimisation; fall through to the handler if Redis misbehaves
+      logger.error(`Response cache lookup failed for ${key}: ${error}`);
+      res.set("X-Cache", "BYPASS");
+      return next();
+    }
+
+    res.set("X-Cache", "MISS");
+
+    const send = res.send.bind(res);
+    res.send = (body?: any) => {
+      // A handler marking its response private (e.g. a staff view) keeps it out of the shared cache
+      const cacheable = !/private|no-store/.test(res.get("Cache-Control") ?? "");
+      if (res.statusCode === 200 && cacheable && (typeof body === "string" || Buffer.isBuffer(body))) {
+        const text = body.toString();
+        const contentType = res.get("Content-Type");
+        const headers: Record<string, string> = {};
+        for (const name of REPLAYED_HEADERS) {
+          const value = res.get(name);
+          if (value) headers[name] = value;
+        }
+        let tags: string[] = [
+          ...(detail ? [] : [namespace, ...dependsOn].map(listTag)),
+          ...(res.locals.cacheTags ?? []),
+        ];
+        if (contentType?.includes("json")) {
+          try {
+            tags = [...tags, ...collectResponseTags(namespace, JSON.parse(text))];
+          } catch {
+            // Not JSON after all; it is purged by the tags it already has
+          }
+        }
+
+        // A response no write can purge would be served stale until it expires
+        if (tags.length > 0) {
+          setCachedResponse(key, { status: 200, headers, body: text }, tags, ttl).catch((error) =>
+            logger.error(`Response cache store failed for ${key}: ${error}`)
+          );
+        }
+      }
+      return send(body);
+    };
+
+    if (locked) {
+      res.on("finish", () => {
+        releaseRebuildLock(key).catch((error) => logger.error(`Response cache unlock failed for ${key}: ${error}`));
+      });
+    }
+
+    next();
+  };
@@ -0,0 +1,87 @@
+import { Response, NextFunction } from "express";
+import busboy from "busboy";
+import env from "../config/env";
+import { UploadedFile, UploadRequest } from "../types";
+import CustomError from "../utils/customError";
+
+const MAX_FIELDS = 20; // Text fields accepted alongside the file
+const MAX_FIELD_BYTES = 64 * 1024;
+
+const maxUploadBytes = () => env.MEDIA_MAX_UPLOAD_MB * 1024 * 1024;
+
+const tooLarge = () =>
+  new CustomError(`Upload exceeds the ${env.MEDIA_MAX_UPLOAD_MB} MB limit`, {
+    statusCode: 413,
+    details: { maxBytes: maxUploadBytes() },
+  });
+
+// Accept a multipart/form-data body with at most one file, in the given field. The file is exposed as
+// req.file and the text fields replace req.body. The body is parsed as it streams in, so a file over
+// MEDIA_MAX_UPLOAD_MB is rejected with 413 as soon as it passes the limit rather than after buffering.
+export const uploadSingle = (fieldName: string) => (req: UploadRequest, res: Response, next: NextFunction) => {
+  let parser: busboy.Busboy;
+  try {
+    parser = busboy({
+      headers: req.headers,
+      defParamCharset: "utf8", // Filenames sent unencoded by browsers
+      limits: { files: 1, fields: MAX_FIELDS, fieldSize: MAX_FIELD_BYTES, fileSize: maxUploadBytes() },
+    });
+  } catch {
+    next(new CustomError("Expected a multipart/form-data body", { statusCode: 415 }));
+    return;
+  }
+
+  const wrongFiles = () => new CustomError(`Upload exactly one file in the "${fieldName}" field`, { statusCode: 400 });
+  const malformed = () => new CustomError("Malformed multipart body", { statusCode: 400 });
+  const fields: Record<string, string> = {};
+  let file: UploadedFile | undefined;
+  let failed = false;
+
+  // Stop parsing and discard the rest of the body, answering once
+  const fail = (error: CustomError) => {
+    if (failed) return;
+    failed = true;
+    req.unpipe(parser);
+    req.resume();
+    next(error);
+  };
+
+  parser.on("field", (name, value, info) => {
+    if (info.valueTruncated) {
+      fail(new CustomError(`Field "${name}" exceeds ${MAX_FIELD_BYTES} bytes`, { statusCode: 413 }));
+      return;
+    }
+    fields[name] = value;
+  });
+
+  parser.on("file", (name, stream, info) => {
+    stream.on("error", () => fail(malformed())); // e.g. the body ends inside the file
+    if (name !== fieldName) {
+      stream.resume();
+      fail(wrongFiles());
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+    stream.on("limit", () => fail(tooLarge()));
+    stream.on("close", () => {
+      if (stream.truncated) return;
+      file = { fieldName: name, filename: info.filename, contentType: info.mimeType, data: Buffer.concat(chunks) };
+    });
+  });
+
+  parser.on("filesLimit", () => fail(wrongFiles()));
+  parser.on("fieldsLimit", () =>
+    fail(new CustomError(`At most ${MAX_FIELDS} form fields are accepted`, { statusCode: 400 }))
+  );
+  parser.on("error", () => fail(malformed()));
+  parser.on("close", () => {
+    if (failed) return;
+    req.body = fields;
+    if (file) req.file = file;
+    next();
+  });
+
+  req.pipe(parser);
+};
@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from "express";
+import { logger } from "../utils/logger";
+import { recordView } from "../utils/viewCounter";
+
+// Crawlers, link unfurlers and scripted clients are not readers
+const BOT_PATTERN = /bot|crawl|spider|slurp|facebookexternalhit|embedly|preview|headless|curl|wget|python-requests/i;
+
+// Count a view of the requested post once the response has been sent. Mounted before the response
+// cache so cached responses are counted too; counting never delays or fails the request.
+export const trackBlogView = (req: Request, res: Response, next: NextFunction) => {
+  const target = req.params.idOrSlug;
+  const userAgent = req.get("user-agent") ?? "";
+
+  res.on("finish", () => {
+    // Errors, redirects and staff opening unpublished posts (private responses) are not views
+    if (!target || res.statusCode !== 200 || res.get("Cache-Control")?.includes("private")) return;
+    if (!userAgent || BOT_PATTERN.test(userAgent)) return;
+
+    recordView(target, req.ip ?? "", userAgent).catch((error) =>
+      logger.error(`Failed to record a view of ${target}: ${error}`)
+    );
+  });
+
+  next();
+};
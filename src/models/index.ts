@@ -40,10 +40,52 @@ interface IAuthor {
   updatedAt: string;
 }
 
+// User Roles (most to least privileged)
+const USER_ROLES = ["admin", "editor", "author", "contributor"] as const;
+type UserRole = (typeof USER_ROLES)[number];
+
+// Two-Factor Authentication State (secrets and code hashes are never serialized)
+interface ITwoFactor {
+  enabled: boolean;
+  secret?: string;
+  pendingSecret?: string; // Generated at setup, promoted to secret once a code is confirmed
+  recoveryCodes: string[]; // SHA-256 hashes of unused recovery codes
+  lastUsedStep?: number; // Last accepted TOTP time step, so a code cannot be replayed
+  enabledAt?: string;
+}
+
+// User Interface (display profile mirrors IAuthor)
+interface IUser extends Document {
+  email: string;
+  passwordHash: string;
+  name: string;
+  username: string;
+  avatarUrl?: string;
+  bio?: string;
+  social?: IAuthor["social"];
+  role: UserRole;
+  status: "active" | "disabled";
+  invitedBy?: mongoose.Types.ObjectId;
+  twoFactor: ITwoFactor;
+  passwordChangedAt?: string;
+  lastLoginAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Setting Interface (site-wide settings changed at runtime by admins)
+interface ISetting extends Document {
+  key: string;
+  value: unknown;
+  updatedAt: string;
+}
+
 // Category Interface
 interface ICategory extends Document {
   name: string;
   slug: string;
+  slugPinned: boolean; // Custom slug, kept when the name changes
+  previousSlugs: string[]; // Old slugs, answered with a redirect
   description?: string;
   parentId?: mongoose.Types.ObjectId;
   createdAt: string;
@@ -54,10 +96,31 @@ interface ICategory extends Document {
 interface ITag extends Document {
   name: string;
   slug: string;
+  slugPinned: boolean; // Custom slug, kept when the name changes
+  previousSlugs: string[]; // Slugs of renamed or merged-away tags, answered with a redirect
   createdAt: string;
   updatedAt: string;
 }
 
+// Explicit overrides for server-derived metadata
+interface IDerivedOverrides {
+  readingTimeMinutes?: number;
+  wordCount?: number;
+}
+
+// Table of Contents Entry Interface
+interface ITocEntry {
+  id: string;
+  text: string;
+  level: number;
+}
+
+// Scheduled Transition Interface (future unpublish/archive of a published post)
+interface IScheduledTransition {
+  action: "unpublish" | "archive";
+  at: string;
+}
+
 // Metadata Interface
 interface IMetadata {
   title?: string;
@@ -69,6 +132,7 @@ interface IMetadata {
   readingTimeMinutes?: number;
   wordCount?: number;
   language?: string;
+  overrides?: IDerivedOverrides;
 }
 
 // Blog Post Interface
@@ -76,23 +140,107 @@ interface IBlogPost extends Document {
   id: string;
   title: string;
   slug: string;
+  slugPinned: boolean; // Custom slug, kept when the title changes
+  previousSlugs: string[]; // Old slugs, answered with a redirect
   excerpt: string;
   content: RootNode;
   author: IAuthor;
   categories: mongoose.Types.ObjectId[];
   tags: mongoose.Types.ObjectId[];
   metadata: IMetadata;
-  status: "draft" | "published" | "archived";
+  toc: ITocEntry[];
+  status: "draft" | "scheduled" | "published" | "archived";
+  scheduledTransition?: IScheduledTransition;
+  commentsOpen: boolean;
+  commentCount: number; // Approved comments, kept in sync by the comment controller
+  searchText?: string; // Plain text of content, maintained by the search index
+  mediaIds: mongoose.Types.ObjectId[]; // Media library items used in content or metadata
+  viewCount: number; // Views flushed from Redis so far; see BlogView for the daily breakdown
   createdAt: string;
   updatedAt: string;
   publishedAt?: string;
 }
 
-// Author Schema
+// Comment Interface (threaded via parentId; rootId is the top-level comment of the thread)
+interface IComment extends Document {
+  blogId: mongoose.Types.ObjectId;
+  parentId?: mongoose.Types.ObjectId;
+  rootId?: mongoose.Types.ObjectId;
+  depth: number;
+  authorName: string;
+  authorEmail?: string;
+  authorUrl?: string;
+  body: string;
+  status: "pending" | "approved" | "spam" | "deleted";
+  ip?: string;
+  userAgent?: string;
+  moderatedBy?: string;
+  moderatedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Blog View Interface (a post's de-duplicated views on one UTC day)
+interface IBlogView extends Document {
+  blogId: mongoose.Types.ObjectId;
+  date: string; // YYYY-MM-DD
+  views: number;
+  flushes?: string[]; // Recent flush batches counted here, so a retried batch is not counted twice
+}
+
+// Media Variant Interface (a resized rendition of an image)
+interface IMediaVariant {
+  name: string;
+  storageKey: string;
+  url: string;
+  mimeType: string;
+  size: number;
+  width: number;
+  height: number;
+}
+
+// Media Interface (an uploaded file in the media library)
+interface IMedia extends Document {
+  filename: string; // Original name as uploaded
+  storage: string; // Storage driver holding the files
+  storageKey: string;
+  url: string;
+  mimeType: string; // Sniffed from the file contents, not the client's claim
+  size: number;
+  width?: number;
+  height?: number;
+  variants: IMediaVariant[];
+  alt: string;
+  caption?: string;
+  uploadedBy: IRevisionEditor;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Revision Editor Interface
+interface IRevisionEditor {
+  id: string;
+  username?: string;
+}
+
+// Blog Revision Interface (immutable snapshot of a blog save)
+interface IBlogRevision extends Document {
+  blogId: mongoose.Types.ObjectId;
+  version: number;
+  title: string;
+  excerpt: string;
+  content: RootNode;
+  metadata?: IMetadata;
+  editor: IRevisionEditor;
+  restoredFrom?: mongoose.Types.ObjectId;
+  createdAt: string;
+}
+
+// Author Schema (embedded per post, so id and username repeat across a user's posts)
 const authorSchema = new Schema<IAuthor>({
-  id: { type: String, default: uuidv4, unique: true },
+  id: { type: String, default: uuidv4 },
   name: { type: String, required: true },
-  username: { type: String, required: true, unique: true },
+  username: { type: String, required: true },
   email: { type: String },
   avatarUrl: { type: String },
   bio: { type: String },
@@ -106,10 +254,62 @@ const authorSchema = new Schema<IAuthor>({
   updatedAt: { type: String, default: () => new Date().toISOString() },
 });
 
+// User Schema
+const userSchema = new Schema<IUser>(
+  {
+    email: { type: String, required: true, unique: true, lowercase: true, trim: true },
+    passwordHash: { type: String, required: true, select: false },
+    name: { type: String, required: true },
+    username: { type: String, required: true, unique: true },
+    avatarUrl: { type: String },
+    bio: { type: String },
+    social: {
+      twitter: { type: String },
+      github: { type: String },
+      linkedin: { type: String },
+      website: { type: String },
+    },
+    role: { type: String, enum: USER_ROLES, default: "contributor" },
+    status: { type: String, enum: ["active", "disabled"], default: "active" },
+    invitedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    twoFactor: {
+      enabled: { type: Boolean, default: false },
+      secret: { type: String, select: false },
+      pendingSecret: { type: String, select: false },
+      recoveryCodes: { type: [String], select: false },
+      lastUsedStep: { type: Number },
+      enabledAt: { type: String },
+    },
+    passwordChangedAt: { type: String },
+    lastLoginAt: { type: String },
+    createdAt: { type: String, default: () => new Date().toISOString() },
+    updatedAt: { type: String, default: () => new Date().toISOString() },
+  },
+  {
+    // Never serialize the password hash or 2FA secrets, even when they were explicitly selected
+    toJSON: {
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.passwordHash;
+        if (ret.twoFactor) ret.twoFactor = { enabled: ret.twoFactor.enabled, enabledAt: ret.twoFactor.enabledAt };
+        return ret;
+      },
+    },
+  }
+);
+
+// Setting Schema
+const settingSchema = new Schema<ISetting>({
+  key: { type: String, required: true, unique: true },
+  value: { type: Schema.Types.Mixed },
+  updatedAt: { type: String, default: () => new Date().toISOString() },
+});
+
 // Category Schema
 const categorySchema = new Schema<ICategory>({
   name: { type: String, required: true },
   slug: { type: String, required: true, unique: true },
+  slugPinned: { type: Boolean, default: false },
+  previousSlugs: { type: [String], default: [] },
   description: { type: String },
   parentId: { type: Schema.Types.ObjectId, ref: "Category" },
   createdAt: { type: String, default: () => new Date().toISOString() },
@@ -120,6 +320,8 @@ const categorySchema = new Schema<ICategory>({
 const tagSchema = new Schema<ITag>({
   name: { type: String, required: true },
   slug: { type: String, required: true, unique: true },
+  slugPinned: { type: Boolean, default: false },
+  previousSlugs: { type: [String], default: [] },
   createdAt: { type: String, default: () => new Date().toISOString() },
   updatedAt: { type: String, default: () => new Date().toISOString() },
 });
@@ -135,46 +337,217 @@ const metadataSchema = new Schema<IMetadata>({
   readingTimeMinutes: { type: Number },
   wordCount: { type: Number },
   language: { type: String },
+  overrides: {
+    readingTimeMinutes: { type: Number },
+    wordCount: { type: Number },
+  },
 });
 
+// Table of Contents Entry Schema
+const tocEntrySchema = new Schema<ITocEntry>(
+  {
+    id: { type: String, required: true },
+    text: { type: String, required: true },
+    level: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
 // Blog Post Schema
 const blogPostSchema = new Schema<IBlogPost>({
   id: { type: String, default: uuidv4, unique: true },
   title: { type: String, required: true },
   slug: { type: String, required: true, unique: true },
+  slugPinned: { type: Boolean, default: false },
+  previousSlugs: { type: [String], default: [] },
   excerpt: { type: String, required: true },
   content: { type: Schema.Types.Mixed, required: true },
   author: { type: authorSchema, required: true },
   categories: [{ type: Schema.Types.ObjectId, ref: "Category" }],
   tags: [{ type: Schema.Types.ObjectId, ref: "Tag" }],
   metadata: { type: metadataSchema },
+  toc: { type: [tocEntrySchema], default: [] },
   status: {
     type: String,
-    enum: ["draft", "published", "archived"],
+    enum: ["draft", "scheduled", "published", "archived"],
     default: "draft",
   },
+  scheduledTransition: {
+    type: new Schema<IScheduledTransition>(
+      {
+        action: { type: String, enum: ["unpublish", "archive"], required: true },
+        at: { type: String, required: true },
+      },
+      { _id: false }
+    ),
+  },
+  commentsOpen: { type: Boolean, default: true },
+  commentCount: { type: Number, default: 0 },
+  searchText: { type: String, select: false },
+  mediaIds: [{ type: Schema.Types.ObjectId, ref: "Media" }],
+  viewCount: { type: Number, default: 0 },
   createdAt: { type: String, default: () => new Date().toISOString() },
   updatedAt: { type: String, default: () => new Date().toISOString() },
   publishedAt: { type: String },
 });
 
+// Comment Schema
+const commentSchema = new Schema<IComment>({
+  blogId: { type: Schema.Types.ObjectId, ref: "BlogPost", required: true },
+  parentId: { type: Schema.Types.ObjectId, ref: "Comment" },
+  rootId: { type: Schema.Types.ObjectId, ref: "Comment" },
+  depth: { type: Number, default: 0 },
+  authorName: { type: String, required: true },
+  authorEmail: { type: String },
+  authorUrl: { type: String },
+  body: { type: String, required: true },
+  status: {
+    type: String,
+    enum: ["pending", "approved", "spam", "deleted"],
+    default: "pending",
+  },
+  ip: { type: String },
+  userAgent: { type: String },
+  moderatedBy: { type: String },
+  moderatedAt: { type: String },
+  createdAt: { type: String, default: () => new Date().toISOString() },
+  updatedAt: { type: String, default: () => new Date().toISOString() },
+});
+
+// Blog View Schema
+const blogViewSchema = new Schema<IBlogView>({
+  blogId: { type: Schema.Types.ObjectId, ref: "BlogPost", required: true },
+  date: { type: String, required: true },
+  views: { type: Number, default: 0 },
+  flushes: { type: [String], default: undefined, select: false },
+});
+
+// Media Variant Schema
+const mediaVariantSchema = new Schema<IMediaVariant>(
+  {
+    name: { type: String, required: true },
+    storageKey: { type: String, required: true },
+    url: { type: String, required: true },
+    mimeType: { type: String, required: true },
+    size: { type: Number, required: true },
+    width: { type: Number, required: true },
+    height: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+// Media Schema
+const mediaSchema = new Schema<IMedia>({
+  filename: { type: String, required: true },
+  storage: { type: String, required: true },
+  storageKey: { type: String, required: true, unique: true },
+  url: { type: String, required: true },
+  mimeType: { type: String, required: true },
+  size: { type: Number, required: true },
+  width: { type: Number },
+  height: { type: Number },
+  variants: { type: [mediaVariantSchema], default: [] },
+  alt: { type: String, default: "" },
+  caption: { type: String },
+  uploadedBy: {
+    id: { type: String, required: true },
+    username: { type: String },
+  },
+  createdAt: { type: String, default: () => new Date().toISOString() },
+  updatedAt: { type: String, default: () => new Date().toISOString() },
+});
+
+// Blog Revision Schema (all fields immutable once written)
+const blogRevisionSchema = new Schema<IBlogRevision>({
+  blogId: { type: Schema.Types.ObjectId, ref: "BlogPost", required: true, immutable: true },
+  version: { type: Number, required: true, immutable: true },
+  title: { type: String, required: true, immutable: true },
+  excerpt: { type: String, required: true, immutable: true },
+  content: { type: Schema.Types.Mixed, required: true, immutable: true },
+  metadata: { type: metadataSchema, immutable: true },
+  editor: {
+    id: { type: String, required: true, immutable: true },
+    username: { type: String, immutable: true },
+  },
+  restoredFrom: { type: Schema.Types.ObjectId, ref: "BlogRevision", immutable: true },
+  createdAt: { type: String, default: () => new Date().toISOString(), immutable: true },
+});
+
+// Reject update queries so revisions can only ever be inserted
+blogRevisionSchema.pre(["updateOne", "updateMany", "findOneAndUpdate", "replaceOne"], function () {
+  throw new Error("Blog revisions are immutable");
+});
+
 // Indexes for performance
 blogPostSchema.index({ slug: 1 });
+blogPostSchema.index({ previousSlugs: 1 });
 blogPostSchema.index({ status: 1, publishedAt: -1 });
 blogPostSchema.index({ categories: 1 });
 blogPostSchema.index({ tags: 1 });
-blogPostSchema.index({ title: "text", excerpt: "text" }); // Text index for search
+blogPostSchema.index({ "author.id": 1 });
+blogPostSchema.index({ mediaIds: 1 });
 
 categorySchema.index({ slug: 1 });
 categorySchema.index({ name: 1 });
 categorySchema.index({ parentId: 1 });
+categorySchema.index({ previousSlugs: 1 });
 
 tagSchema.index({ slug: 1 });
 tagSchema.index({ name: 1 });
+tagSchema.index({ previousSlugs: 1 });
+
+blogRevisionSchema.index({ blogId: 1, version: -1 }, { unique: true });
+
+userSchema.index({ role: 1 });
+
+commentSchema.index({ blogId: 1, status: 1, rootId: 1, _id: 1 });
+commentSchema.index({ status: 1, _id: -1 }); // Moderation queue
+
+mediaSchema.index({ url: 1 });
+mediaSchema.index({ "variants.url": 1 });
+mediaSchema.index({ mimeType: 1, _id: -1 });
+
+blogViewSchema.index({ blogId: 1, date: 1 }, { unique: true });
+blogViewSchema.index({ date: 1, blogId: 1 }); // Popular and trending windows
 
 // Models
 const BlogPost = mongoose.model<IBlogPost>("BlogPost", blogPostSchema);
 const Category = mongoose.model<ICategory>("Category", categorySchema);
 const Tag = mongoose.model<ITag>("Tag", tagSchema);
+const BlogRevision = mongoose.model<IBlogRevision>("BlogRevision", blogRevisionSchema);
+const User = mongoose.model<IUser>("User", userSchema);
+const Setting = mongoose.model<ISetting>("Setting", settingSchema);
+const Comment = mongoose.model<IComment>("Comment", commentSchema);
+const Media = mongoose.model<IMedia>("Media", mediaSchema);
+const BlogView = mongoose.model<IBlogView>("BlogView", blogViewSchema);
 
-export { BlogPost, Category, Tag, IBlogPost, IAuthor, ICategory, ITag, IMetadata, RootNode };
\ No newline at end of file
+export {
+  BlogPost,
+  Category,
+  Tag,
+  BlogRevision,
+  User,
+  USER_ROLES,
+  UserRole,
+  IUser,
+  ITwoFactor,
+  Setting,
+  ISetting,
+  Comment,
+  IComment,
+  Media,
+  IMedia,
+  IMediaVariant,
+  BlogView,
+  IBlogView,
+  IBlogPost,
+  IAuthor,
+  ICategory,
+  ITag,
+  IMetadata,
+  ITocEntry,
+  IScheduledTransition,
+  IBlogRevision,
+  IRevisionEditor,
+  RootNode,
+};
\ No newline at end of file
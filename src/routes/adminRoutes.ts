@@ -0,0 +1,22 @@
+import { Router } from "express";
+import {
+  flushResponseCache,
+  rebuildSearchIndex,
+  getTwoFactorPolicy,
+  updateTwoFactorPolicy,
+} from "../controllers/adminController";
+import { getAdminBlogs } from "../controllers/blogController";
+import { getBlogViews } from "../controllers/analyticsController";
+import { protect, authorize } from "../middlewares/authMiddleware";
+
+const router = Router();
+
+// Admin-only routes (protected by authentication)
+router.get("/blogs", protect, authorize("blog:edit"), getAdminBlogs);
+router.get("/blogs/:id/views", protect, authorize("blog:edit"), getBlogViews);
+router.delete("/cache", protect, authorize("cache:manage"), flushResponseCache);
+router.post("/search/reindex", protect, authorize("search:manage"), rebuildSearchIndex);
+router.get("/security/two-factor", protect, authorize("user:manage"), getTwoFactorPolicy);
+router.put("/security/two-factor", protect, authorize("user:manage"), updateTwoFactorPolicy);
+
+export default router;
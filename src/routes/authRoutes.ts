@@ -1,5 +1,29 @@
 import { Router } from "express";
-import { login, refresh, logout } from "../controllers/authController";
+import {
+  login,
+  refresh,
+  logout,
+  getMe,
+  updateMe,
+  changePassword,
+  forgotPassword,
+  resetPassword,
+  getInvite,
+  acceptInvite,
+  getSessions,
+  deleteSession,
+  deleteAllSessions,
+  deleteOtherSessions,
+} from "../controllers/authController";
+import {
+  verifyTwoFactorLogin,
+  setupTwoFactor,
+  enableTwoFactor,
+  setupTwoFactorEnrollment,
+  enableTwoFactorEnrollment,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+} from "../controllers/twoFactorController";
 import { protect } from "../middlewares/authMiddleware";
 
 const router = Router();
@@ -13,4 +37,32 @@ router.post("/refresh", refresh);
 // Logout route
 router.post("/logout", logout);
 
-export default router;
\ No newline at end of file
+// Current user routes
+router.get("/me", protect, getMe);
+router.patch("/me", protect, updateMe);
+router.post("/change-password", protect, changePassword);
+
+// Two-factor authentication routes
+router.post("/2fa/verify", verifyTwoFactorLogin);
+router.post("/2fa/enrollment/setup", setupTwoFactorEnrollment);
+router.post("/2fa/enrollment/enable", enableTwoFactorEnrollment);
+router.post("/2fa/setup", protect, setupTwoFactor);
+router.post("/2fa/enable", protect, enableTwoFactor);
+router.post("/2fa/recovery-codes", protect, regenerateRecoveryCodes);
+router.post("/2fa/disable", protect, disableTwoFactor);
+
+// Session (device) routes
+router.get("/sessions", protect, getSessions);
+router.delete("/sessions", protect, deleteAllSessions);
+router.delete("/sessions/others", protect, deleteOtherSessions);
+router.delete("/sessions/:sessionId", protect, deleteSession);
+
+// Password reset routes
+router.post("/forgot-password", forgotPassword);
+router.post("/reset-password", resetPassword);
+
+// Invite routes
+router.get("/invites/:token", getInvite);
+router.post("/invites/accept", acceptInvite);
+
+export default router;
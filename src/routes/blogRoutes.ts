@@ -1,29 +1,70 @@
 import { Router } from "express";
+import rateLimit from "express-rate-limit";
 import {
   createBlog,
   updateBlog,
   deleteBlog,
   getAllBlogs,
   getBlog,
+  getRelatedBlogs,
+  getSuggestedTags,
+  exportBlogMarkdown,
   searchBlogs,
   searchByTags,
   searchByCategories,
 } from "../controllers/blogController";
-import { protect } from "../middlewares/authMiddleware";
+import { getScheduledBlogs, scheduleBlog, cancelSchedule } from "../controllers/scheduleController";
+import { listRevisions, getRevision, diffRevisions, restoreRevision } from "../controllers/revisionController";
+import { getComments, createComment } from "../controllers/commentController";
+import { createPreview, listPreviews, revokePreview, getBlogPreview } from "../controllers/previewController";
+import { getPopularBlogs, getTrendingBlogs } from "../controllers/analyticsController";
+import { protect, authorize, optionalAuth } from "../middlewares/authMiddleware";
+import { cacheResponse } from "../middlewares/cacheMiddleware";
+import { trackBlogView } from "../middlewares/viewMiddleware";
+import env from "../config/env";
 
 const router = Router();
 
-// Admin-only routes (protected by authentication)
-router.post("/", protect, createBlog);
-router.patch("/:id", protect, updateBlog);
-router.delete("/:id", protect, deleteBlog);
+// Authenticated routes (role permissions here, post ownership checked in the controllers)
+router.post("/", protect, authorize("blog:create"), createBlog);
+router.patch("/:id", protect, authorize("blog:edit"), updateBlog);
+router.delete("/:id", protect, authorize("blog:delete"), deleteBlog);
+router.get("/scheduled", protect, authorize("blog:publish"), getScheduledBlogs);
+router.put("/:id/schedule", protect, authorize("blog:publish"), scheduleBlog);
+router.delete("/:id/schedule/:action", protect, authorize("blog:publish"), cancelSchedule);
+router.get("/:id/suggested-tags", protect, authorize("blog:edit"), getSuggestedTags);
+router.get("/:id/revisions", protect, authorize("blog:edit"), listRevisions);
+router.get("/:id/revisions/diff", protect, authorize("blog:edit"), diffRevisions);
+router.get("/:id/revisions/:version", protect, authorize("blog:edit"), getRevision);
+router.post("/:id/revisions/:version/restore", protect, authorize("blog:edit"), restoreRevision);
+router.post("/:id/previews", protect, authorize("blog:edit"), createPreview);
+router.get("/:id/previews", protect, authorize("blog:edit"), listPreviews);
+router.delete("/:id/previews/:previewId", protect, authorize("blog:edit"), revokePreview);
 
 // Public routes
-router.get("/", getAllBlogs);
-router.get("/search", searchBlogs);
-router.get("/tags", searchByTags);
-router.get("/categories", searchByCategories);
-router.get("/:idOrSlug", getBlog);
+const cacheList = cacheResponse("blogs", env.CACHE_TTL_LIST_SECONDS);
+const cacheDetail = cacheResponse("blogs", env.CACHE_TTL_DETAIL_SECONDS, { detail: true });
+
+router.get("/", cacheList, getAllBlogs);
+router.get("/search", cacheList, searchBlogs);
+router.get("/popular", cacheList, getPopularBlogs);
+router.get("/trending", cacheList, getTrendingBlogs);
+router.get("/preview/:token", getBlogPreview); // Never cached: every response depends on the token
+router.get("/tags", cacheList, searchByTags);
+router.get("/categories", cacheList, searchByCategories);
+router.get("/:idOrSlug/markdown", cacheDetail, exportBlogMarkdown);
+router.get("/:idOrSlug/related", cacheList, getRelatedBlogs); // List TTL: changes whenever any post does
+router.get("/:idOrSlug/comments", getComments);
+router.post(
+  "/:idOrSlug/comments",
+  rateLimit({
+    windowMs: env.COMMENT_RATE_LIMIT_WINDOW_MINUTES * 60 * 1000,
+    max: env.COMMENT_RATE_LIMIT_MAX, // Limit each IP's comment submissions per window
+  }),
+  createComment
+);
+// Views are tracked ahead of the cache so cache hits count; the cache is bypassed when a token is sent
+router.get("/:idOrSlug", trackBlogView, cacheDetail, optionalAuth, getBlog);
 
 
 export default router;
\ No newline at end of file
@@ -1,16 +1,28 @@
 import { Router } from "express";
-import { createCategory, updateCategory, deleteCategory, getCategories, getCategory } from "../controllers/categoryController";
-import { protect } from "../middlewares/authMiddleware";
+import {
+  createCategory,
+  updateCategory,
+  moveCategory,
+  deleteCategory,
+  getCategories,
+  getCategoryTree,
+  getCategory,
+} from "../controllers/categoryController";
+import { protect, authorize } from "../middlewares/authMiddleware";
+import { cacheResponse } from "../middlewares/cacheMiddleware";
+import env from "../config/env";
 
 const router = Router();
 
 // Admin-only routes (protected by authentication)
-router.post("/", protect, createCategory);
-router.patch("/:id", protect, updateCategory);
-router.delete("/:id", protect, deleteCategory);
+router.post("/", protect, authorize("taxonomy:manage"), createCategory);
+router.patch("/:id", protect, authorize("taxonomy:manage"), updateCategory);
+router.put("/:id/parent", protect, authorize("taxonomy:manage"), moveCategory);
+router.delete("/:id", protect, authorize("taxonomy:manage"), deleteCategory);
 
 // Public routes
-router.get("/", getCategories);
-router.get("/:idOrSlug", getCategory);
+router.get("/", cacheResponse("categories", env.CACHE_TTL_LIST_SECONDS), getCategories);
+router.get("/tree", cacheResponse("categories", env.CACHE_TTL_LIST_SECONDS, { dependsOn: ["blogs"] }), getCategoryTree);
+router.get("/:idOrSlug", cacheResponse("categories", env.CACHE_TTL_DETAIL_SECONDS, { detail: true }), getCategory);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { getModerationQueue, moderateComment, bulkModerateComments } from "../controllers/commentController";
+import { protect, authorize } from "../middlewares/authMiddleware";
+
+const router = Router();
+
+// Moderation routes (protected by authentication and the moderation permission)
+router.use(protect, authorize("comment:moderate"));
+
+router.get("/", getModerationQueue);
+router.post("/bulk", bulkModerateComments);
+router.patch("/:id", moderateComment);
+
+export default router;
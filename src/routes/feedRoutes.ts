@@ -0,0 +1,21 @@
+import { Router } from "express";
+import {
+  getRssFeed,
+  getAtomFeed,
+  getJsonFeed,
+  getCategoryFeed,
+  getTagFeed,
+  getAuthorFeed,
+} from "../controllers/feedController";
+
+const router = Router();
+
+// Public routes
+router.get("/rss.xml", getRssFeed);
+router.get("/atom.xml", getAtomFeed);
+router.get("/feed.json", getJsonFeed);
+router.get("/categories/:slug.xml", getCategoryFeed);
+router.get("/tags/:slug.xml", getTagFeed);
+router.get("/authors/:username.xml", getAuthorFeed);
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { uploadMedia, getMediaList, getMedia, updateMedia, deleteMedia } from "../controllers/mediaController";
+import { protect, authorize } from "../middlewares/authMiddleware";
+import { uploadSingle } from "../middlewares/uploadMiddleware";
+
+const router = Router();
+
+// Staff routes (protected by authentication); editing and deleting also check ownership
+router.use(protect, authorize("media:upload"));
+
+router.post("/", uploadSingle("file"), uploadMedia);
+router.get("/", getMediaList);
+router.get("/:id", getMedia);
+router.patch("/:id", updateMedia);
+router.delete("/:id", deleteMedia);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { getSitemapIndex, getSitemap } from "../controllers/sitemapController";
+
+const router = Router();
+
+// Public routes
+router.get("/sitemap.xml", getSitemapIndex);
+router.get("/sitemaps/:type-:page.xml", getSitemap);
+
+export default router;
@@ -1,16 +1,32 @@
 import { Router } from "express";
-import { createTag, updateTag, deleteTag, getTags, getTag } from "../controllers/tagController";
-import { protect } from "../middlewares/authMiddleware";
+import {
+  createTag,
+  updateTag,
+  mergeTag,
+  deleteTag,
+  getTags,
+  autocompleteTags,
+  getTag,
+} from "../controllers/tagController";
+import { protect, authorize } from "../middlewares/authMiddleware";
+import { cacheResponse } from "../middlewares/cacheMiddleware";
+import env from "../config/env";
 
 const router = Router();
 
 // Admin-only routes (protected by authentication)
-router.post("/", protect, createTag);
-router.patch("/:id", protect, updateTag);
-router.delete("/:id", protect, deleteTag);
+router.post("/", protect, authorize("taxonomy:manage"), createTag);
+router.patch("/:id", protect, authorize("taxonomy:manage"), updateTag);
+router.post("/:id/merge", protect, authorize("taxonomy:manage"), mergeTag);
+router.delete("/:id", protect, authorize("taxonomy:manage"), deleteTag);
 
 // Public routes
-router.get("/", getTags);
-router.get("/:idOrSlug", getTag);
+router.get("/", cacheResponse("tags", env.CACHE_TTL_LIST_SECONDS, { dependsOn: ["blogs"] }), getTags);
+router.get(
+  "/autocomplete",
+  cacheResponse("tags", env.CACHE_TTL_LIST_SECONDS, { dependsOn: ["blogs"] }),
+  autocompleteTags
+);
+router.get("/:idOrSlug", cacheResponse("tags", env.CACHE_TTL_DETAIL_SECONDS, { detail: true }), getTag);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { Router } from "express";
+import {
+  listUsers,
+  getUser,
+  updateUser,
+  inviteUser,
+  issuePasswordReset,
+  unlockUser,
+  unlockIp,
+  resetUserTwoFactor,
+} from "../controllers/userController";
+import { protect, authorize } from "../middlewares/authMiddleware";
+
+const router = Router();
+
+// Admin-only routes (protected by authentication)
+router.use(protect, authorize("user:manage"));
+
+router.get("/", listUsers);
+router.post("/invites", inviteUser);
+router.delete("/lockouts/ip/:ip", unlockIp);
+router.get("/:id", getUser);
+router.patch("/:id", updateUser);
+router.post("/:id/password-reset", issuePasswordReset);
+router.delete("/:id/lockout", unlockUser);
+router.delete("/:id/two-factor", resetUserTwoFactor);
+
+export default router;
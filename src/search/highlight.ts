@@ -0,0 +1,54 @@
+import { escapeHtml } from "../utils/lexicalRenderer";
+import { ParsedQuery, termPattern } from "./queryParser";
+
+const SNIPPET_RADIUS = 80; // Characters of context on each side of a match
+const MAX_SNIPPETS = 3;
+
+// Matches any positive term of the query, or null when the query has none
+const buildMatcher = (query: ParsedQuery) => {
+  const patterns = query.groups.flat().map(termPattern);
+  return patterns.length > 0 ? new RegExp(patterns.join("|"), "giu") : null;
+};
+
+// HTML-escape text and wrap every match in <mark>
+const highlightText = (text: string, matcher: RegExp | null) => {
+  if (!matcher) return escapeHtml(text);
+
+  let output = "";
+  let last = 0;
+  for (const match of text.matchAll(matcher)) {
+    if (match[0].length === 0) continue;
+    output += escapeHtml(text.slice(last, match.index)) + `<mark>${escapeHtml(match[0])}</mark>`;
+    last = match.index! + match[0].length;
+  }
+  return output + escapeHtml(text.slice(last));
+};
+
+// Highlighted snippets around the first few matches of a long text, without overlapping windows
+const buildSnippets = (text: string, matcher: RegExp | null) => {
+  if (!matcher) return [];
+
+  const clean = text.replace(/\s+/g, " ").trim();
+  const snippets: string[] = [];
+  let coveredUntil = -1;
+
+  for (const match of clean.matchAll(matcher)) {
+    if (snippets.length >= MAX_SNIPPETS) break;
+    if (match.index! < coveredUntil) continue;
+
+    let start = Math.max(0, match.index! - SNIPPET_RADIUS);
+    let end = Math.min(clean.length, match.index! + match[0].length + SNIPPET_RADIUS);
+    // Widen to whole words
+    while (start > 0 && clean[start - 1] !== " ") start--;
+    while (end < clean.length && clean[end] !== " ") end++;
+
+    const prefix = start > 0 ? "…" : "";
+    const suffix = end < clean.length ? "…" : "";
+    snippets.push(prefix + highlightText(clean.slice(start, end), matcher) + suffix);
+    coveredUntil = end;
+  }
+
+  return snippets;
+};
+
+export { buildMatcher, highlightText, buildSnippets };
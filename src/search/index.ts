@@ -0,0 +1,34 @@
+import env from "../config/env";
+import { IBlogPost } from "../models";
+import { logger } from "../utils/logger";
+import { SearchIndex } from "./types";
+import { mongoSearchIndex } from "./mongoSearchIndex";
+
+// Available engines, selected with SEARCH_ENGINE
+const ENGINES: Record<typeof env.SEARCH_ENGINE, SearchIndex> = {
+  mongo: mongoSearchIndex,
+};
+
+const getSearchIndex = () => ENGINES[env.SEARCH_ENGINE];
+
+// Keep the search index in step with a post write. The write already succeeded, so failures
+// are logged rather than thrown; POST /api/admin/search/reindex repairs any drift.
+const syncSearchIndex = async (blog: IBlogPost) => {
+  try {
+    await getSearchIndex().indexBlog(blog);
+  } catch (error) {
+    logger.error(`Failed to index blog ${blog._id}: ${error}`);
+  }
+};
+
+const removeFromSearchIndex = async (blogId: string) => {
+  try {
+    await getSearchIndex().removeBlog(blogId);
+  } catch (error) {
+    logger.error(`Failed to remove blog ${blogId} from the search index: ${error}`);
+  }
+};
+
+export { getSearchIndex, syncSearchIndex, removeFromSearchIndex };
+export * from "./types";
+export { parseSearchQuery, escapeRegExp } from "./queryParser";
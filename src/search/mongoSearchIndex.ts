@@ -0,0 +1,153 @@
+import mongoose, { PipelineStage } from "mongoose";
+import { BlogPost, Category, Tag, IBlogPost } from "../models";
+import { extractDocumentText } from "../utils/lexical";
+import { SearchIndex, SearchRequest, SearchResponse, SearchFilters, FacetCount } from "./types";
+import { ParsedQuery, SearchTerm, termPattern } from "./queryParser";
+import { buildMatcher, highlightText, buildSnippets } from "./highlight";
+
+const FACET_LIMIT = 20;
+const MAX_BODY_MATCHES = 5; // Body matches counted per term, so long posts do not drown out title hits
+
+// Relevance weight of a term match in each field
+const FIELD_WEIGHTS = { title: 10, excerpt: 5, searchText: 1 } as const;
+const TEXT_FIELDS = Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[];
+
+const regex = (term: SearchTerm) => ({ $regex: termPattern(term), $options: "i" });
+
+// Term appears in any searchable field
+const termCondition = (term: SearchTerm) => ({ $or: TEXT_FIELDS.map((field) => ({ [field]: regex(term) })) });
+
+const buildMatchStage = (query: ParsedQuery, filters: SearchFilters) => {
+  const conditions: Record<string, unknown>[] = [{ status: "published" }];
+
+  for (const group of query.groups) {
+    conditions.push({ $or: group.map(termCondition) });
+  }
+  for (const term of query.excluded) {
+    conditions.push({ $nor: [termCondition(term)] });
+  }
+
+  const toObjectIds = (ids: string[]) => ids.map((id) => new mongoose.Types.ObjectId(id));
+  if (filters.tags?.length) conditions.push({ tags: { $in: toObjectIds(filters.tags) } });
+  if (filters.categories?.length) conditions.push({ categories: { $in: toObjectIds(filters.categories) } });
+  if (filters.from) conditions.push({ publishedAt: { $gte: filters.from } });
+  if (filters.to) conditions.push({ publishedAt: { $lte: filters.to } });
+  if (filters.language) conditions.push({ "metadata.language": filters.language });
+
+  return { $and: conditions };
+};
+
+// Weighted count of term matches: title and excerpt count once, body matches up to MAX_BODY_MATCHES
+const buildScoreExpression = (query: ParsedQuery) => {
+  const parts = query.groups.flat().flatMap((term) => [
+    ...(["title", "excerpt"] as const).map((field) => ({
+      $cond: [
+        { $regexMatch: { input: { $ifNull: [`$${field}`, ""] }, regex: termPattern(term), options: "i" } },
+        FIELD_WEIGHTS[field],
+        0,
+      ],
+    })),
+    {
+      $min: [
+        MAX_BODY_MATCHES,
+        { $size: { $regexFindAll: { input: { $ifNull: ["$searchText", ""] }, regex: termPattern(term), options: "i" } } },
+      ],
+    },
+  ]);
+  return parts.length > 0 ? { $add: parts } : 0;
+};
+
+const facetPipeline = (field: "tags" | "categories") => [
+  { $unwind: `$${field}` },
+  { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+  { $sort: { count: -1 as const, _id: 1 as const } },
+  { $limit: FACET_LIMIT },
+];
+
+// Attach names and slugs to facet buckets, dropping buckets whose tag or category no longer exists
+const nameFacets = async (
+  model: typeof Tag | typeof Category,
+  buckets: { _id: mongoose.Types.ObjectId; count: number }[]
+) => {
+  const docs = await (model as typeof Tag)
+    .find({ _id: { $in: buckets.map((bucket) => bucket._id) } })
+    .select("name slug")
+    .lean();
+
+  return buckets.flatMap((bucket): FacetCount[] => {
+    const doc = docs.find((candidate) => String(candidate._id) === String(bucket._id));
+    return doc ? [{ _id: String(doc._id), name: doc.name, slug: doc.slug, count: bucket.count }] : [];
+  });
+};
+
+// Search over MongoDB itself: regex matching on title, excerpt and the plain text of the content,
+// so prefixes, phrases and Unicode work without the stemming and stop-word gaps of $text
+const mongoSearchIndex: SearchIndex = {
+  name: "mongo",
+
+  async search({ query, filters, page, limit }: SearchRequest): Promise<SearchResponse> {
+    const pipeline: PipelineStage[] = [
+      { $match: buildMatchStage(query, filters) },
+      { $project: { content: 0, toc: 0 } },
+      {
+        $facet: {
+          hits: [
+            { $addFields: { _score: buildScoreExpression(query) } },
+            { $sort: { _score: -1, publishedAt: -1, _id: -1 } },
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+          ],
+          total: [{ $count: "count" }],
+          tags: facetPipeline("tags"),
+          categories: facetPipeline("categories"),
+        },
+      },
+    ];
+
+    const [result] = await BlogPost.aggregate(pipeline);
+    const docs: Record<string, any>[] = result?.hits ?? [];
+    await BlogPost.populate(docs, [
+      { path: "categories", select: "name slug" },
+      { path: "tags", select: "name slug" },
+    ]);
+
+    const matcher = buildMatcher(query);
+    const hits = docs.map(({ _score, searchText, ...blog }) => ({
+      blog,
+      score: _score,
+      highlights: {
+        title: highlightText(blog.title ?? "", matcher),
+        excerpt: highlightText(blog.excerpt ?? "", matcher),
+        snippets: buildSnippets(searchText ?? "", matcher),
+      },
+    }));
+
+    return {
+      hits,
+      total: result?.total[0]?.count ?? 0,
+      facets: {
+        tags: await nameFacets(Tag, result?.tags ?? []),
+        categories: await nameFacets(Category, result?.categories ?? []),
+      },
+    };
+  },
+
+  // The index is a field on the post itself: the plain text of its content
+  async indexBlog(blog: IBlogPost) {
+    await BlogPost.updateOne({ _id: blog._id }, { $set: { searchText: extractDocumentText(blog.content) } });
+  },
+
+  // Deleting the post removes its text with it
+  async removeBlog() {},
+
+  async rebuild() {
+    let count = 0;
+    for await (const blog of BlogPost.find().select("content").cursor()) {
+      await this.indexBlog(blog);
+      count++;
+    }
+    return count;
+  },
+};
+
+export { mongoSearchIndex };
@@ -0,0 +1,80 @@
+// Search query syntax shared by every search engine:
+//   rust async        both terms (AND is the default)
+//   rust OR go        either term
+//   "error handling"  exact phrase
+//   deploy*           prefix
+//   -python           exclude
+
+type TermKind = "word" | "prefix" | "phrase";
+
+interface SearchTerm {
+  kind: TermKind;
+  text: string; // Lowercased, without quotes, "*" or "-"
+}
+
+interface ParsedQuery {
+  groups: SearchTerm[][]; // Every group must match; any term within a group may match
+  excluded: SearchTerm[];
+}
+
+const MAX_TERMS = 20;
+
+const TOKEN = /(-?)"([^"]*)"|(\S+)/g;
+
+// Split a raw query into typed terms and boolean groups
+const parseSearchQuery = (input: string): ParsedQuery => {
+  const groups: SearchTerm[][] = [];
+  const excluded: SearchTerm[] = [];
+  let joinNext = false;
+  let count = 0;
+
+  for (const match of input.matchAll(TOKEN)) {
+    if (count >= MAX_TERMS) break;
+
+    let negated = match[1] === "-";
+    let term: SearchTerm | null = null;
+
+    if (match[2] !== undefined) {
+      const phrase = match[2].replace(/\s+/g, " ").trim().toLowerCase();
+      if (phrase) term = { kind: "phrase", text: phrase };
+    } else {
+      let raw = match[3]!;
+      if (raw === "OR") {
+        joinNext = groups.length > 0;
+        continue;
+      }
+      if (raw.startsWith("-") && raw.length > 1) {
+        negated = true;
+        raw = raw.slice(1);
+      }
+      const prefix = raw.endsWith("*");
+      const text = raw.replace(/\*+$/, "").toLowerCase();
+      if (text) term = { kind: prefix ? "prefix" : "word", text };
+    }
+
+    if (!term) continue;
+    count++;
+
+    if (negated) {
+      excluded.push(term);
+    } else if (joinNext) {
+      groups[groups.length - 1]!.push(term);
+    } else {
+      groups.push([term]);
+    }
+    joinNext = false;
+  }
+
+  return { groups, excluded };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Regular expression source matching a term at word boundaries (Unicode-aware)
+const termPattern = (term: SearchTerm) => {
+  const body = term.text.split(" ").map(escapeRegExp).join("\\s+");
+  const start = "(?<![\\p{L}\\p{N}])";
+  return term.kind === "prefix" ? `${start}${body}` : `${start}${body}(?![\\p{L}\\p{N}])`;
+};
+
+export { TermKind, SearchTerm, ParsedQuery, parseSearchQuery, termPattern, escapeRegExp };
@@ -0,0 +1,57 @@
+import { IBlogPost } from "../models";
+import { ParsedQuery } from "./queryParser";
+
+interface SearchFilters {
+  tags?: string[] | undefined;
+  categories?: string[] | undefined;
+  from?: string | undefined;
+  to?: string | undefined;
+  language?: string | undefined;
+}
+
+interface SearchRequest {
+  query: ParsedQuery;
+  filters: SearchFilters;
+  page: number;
+  limit: number;
+}
+
+interface SearchHighlights {
+  title: string;
+  excerpt: string;
+  snippets: string[]; // Matches in the post body with surrounding context
+}
+
+interface SearchHit {
+  blog: Record<string, any>; // Post summary without content, taxonomy populated
+  score: number;
+  highlights: SearchHighlights;
+}
+
+interface FacetCount {
+  _id: string;
+  name: string;
+  slug: string;
+  count: number;
+}
+
+interface SearchResponse {
+  hits: SearchHit[];
+  total: number;
+  facets: {
+    tags: FacetCount[];
+    categories: FacetCount[];
+  };
+}
+
+// A search engine over published posts. Implementations own their index and must be kept in step
+// with writes through indexBlog/removeBlog; rebuild re-indexes every post from MongoDB.
+interface SearchIndex {
+  name: string;
+  search(request: SearchRequest): Promise<SearchResponse>;
+  indexBlog(blog: IBlogPost): Promise<void>;
+  removeBlog(blogId: string): Promise<void>;
+  rebuild(): Promise<number>;
+}
+
+export { SearchFilters, SearchRequest, SearchHighlights, SearchHit, FacetCount, SearchResponse, SearchIndex };
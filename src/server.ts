@@ -1,6 +1,9 @@
 import app from "./app";
 import connectDB from "./config/db";
 import { connectRedis } from "./config/redis";
+import { seedAdminUser } from "./config/bootstrap";
+import { startPublishScheduler } from "./jobs/publishScheduler";
+import { startViewFlusher } from "./jobs/viewFlusher";
 import { logger } from "./utils/logger";
 import env from "./config/env";
 
@@ -8,6 +11,9 @@ const startServer = async () => {
   try {
     await connectDB();
     await connectRedis();
+    await seedAdminUser();
+    await startPublishScheduler();
+    startViewFlusher();
 
     const PORT = parseInt(env.PORT) || 5000;
     app.listen(PORT, () => {
@@ -38,10 +38,37 @@ interface IAuthor {
   updatedAt: string;
 }
 
+type UserRole = "admin" | "editor" | "author" | "contributor";
+
+interface ITwoFactor {
+  enabled: boolean;
+  enabledAt?: string;
+}
+
+interface IUser {
+  _id?: Types.ObjectId;
+  email: string;
+  name: string;
+  username: string;
+  avatarUrl?: string;
+  bio?: string;
+  social?: IAuthor["social"];
+  role: UserRole;
+  status: "active" | "disabled";
+  invitedBy?: Types.ObjectId;
+  twoFactor: ITwoFactor;
+  passwordChangedAt?: string;
+  lastLoginAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 interface ICategory {
   _id?: Types.ObjectId;
   name: string;
   slug: string;
+  slugPinned: boolean;
+  previousSlugs: string[];
   description?: string;
   parentId?: Types.ObjectId;
   createdAt: string;
@@ -52,10 +79,28 @@ interface ITag {
   _id?: Types.ObjectId;
   name: string;
   slug: string;
+  slugPinned: boolean;
+  previousSlugs: string[];
   createdAt: string;
   updatedAt: string;
 }
 
+interface IDerivedOverrides {
+  readingTimeMinutes?: number;
+  wordCount?: number;
+}
+
+interface ITocEntry {
+  id: string;
+  text: string;
+  level: number;
+}
+
+interface IScheduledTransition {
+  action: "unpublish" | "archive";
+  at: string;
+}
+
 interface IMetadata {
   title?: string;
   description?: string;
@@ -66,24 +111,104 @@ interface IMetadata {
   readingTimeMinutes?: number;
   wordCount?: number;
   language?: string;
+  overrides?: IDerivedOverrides;
 }
 
 interface IBlogPost {
   id: string;
   title: string;
   slug: string;
+  slugPinned: boolean;
+  previousSlugs: string[];
   excerpt: string;
   content: RootNode;
   author: IAuthor;
   categories: Types.ObjectId[];
   tags: Types.ObjectId[];
   metadata: IMetadata;
-  status: "draft" | "published" | "archived";
+  toc: ITocEntry[];
+  status: "draft" | "scheduled" | "published" | "archived";
+  scheduledTransition?: IScheduledTransition;
+  commentsOpen: boolean;
+  commentCount: number;
+  viewCount: number;
   createdAt: string;
   updatedAt: string;
   publishedAt?: string;
 }
 
+interface IBlogView {
+  _id?: Types.ObjectId;
+  blogId: Types.ObjectId;
+  date: string;
+  views: number;
+}
+
+interface IComment {
+  _id?: Types.ObjectId;
+  blogId: Types.ObjectId;
+  parentId?: Types.ObjectId;
+  rootId?: Types.ObjectId;
+  depth: number;
+  authorName: string;
+  authorEmail?: string;
+  authorUrl?: string;
+  body: string;
+  status: "pending" | "approved" | "spam" | "deleted";
+  ip?: string;
+  userAgent?: string;
+  moderatedBy?: string;
+  moderatedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface IMediaVariant {
+  name: string;
+  storageKey: string;
+  url: string;
+  mimeType: string;
+  size: number;
+  width: number;
+  height: number;
+}
+
+interface IMedia {
+  _id?: Types.ObjectId;
+  filename: string;
+  storage: string;
+  storageKey: string;
+  url: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  variants: IMediaVariant[];
+  alt: string;
+  caption?: string;
+  uploadedBy: IRevisionEditor;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface IRevisionEditor {
+  id: string;
+  username?: string;
+}
+
+interface IBlogRevision {
+  _id?: Types.ObjectId;
+  blogId: Types.ObjectId;
+  version: number;
+  title: string;
+  excerpt: string;
+  content: RootNode;
+  metadata?: IMetadata;
+  editor: IRevisionEditor;
+  restoredFrom?: Types.ObjectId;
+  createdAt: string;
+}
+
 interface CustomError extends Error {
   statusCode?: number;
   code?: string;
@@ -93,19 +218,47 @@ interface AuthRequest extends Request {
   user?: {
     id: string;
     username: string;
+    role: UserRole;
+    sessionId: string;
   };
 }
 
+// A file from a multipart/form-data body, parsed by uploadSingle
+interface UploadedFile {
+  fieldName: string;
+  filename: string;
+  contentType: string; // As claimed by the client; not trusted
+  data: Buffer;
+}
+
+interface UploadRequest extends AuthRequest {
+  file?: UploadedFile;
+}
+
 export {
   RootNode,
   ElementNode,
   LeafNode,
   LexicalNode,
   IAuthor,
+  UserRole,
+  ITwoFactor,
+  IUser,
   ICategory,
   ITag,
+  IDerivedOverrides,
+  ITocEntry,
+  IScheduledTransition,
   IMetadata,
   IBlogPost,
+  IComment,
+  IBlogView,
+  IMediaVariant,
+  IMedia,
+  IRevisionEditor,
+  IBlogRevision,
   CustomError,
   AuthRequest,
+  UploadedFile,
+  UploadRequest,
 };
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { Request, Response } from "express";
+import bcrypt from "bcrypt";
+import validator from "validator";
+import env from "../config/env";
+import { IUser, UserRole } from "../models";
+import CustomError from "./customError";
+import { issueToken } from "./oneTimeTokens";
+import { issueTokenPair } from "./authTokens";
+import { sendTokens, TokenDelivery } from "./authCookies";
+import { logger } from "./logger";
+
+const BCRYPT_ROUNDS = 12;
+
+// Payloads stored behind single-use tokens
+interface InvitePayload {
+  email: string;
+  role: UserRole;
+  invitedBy: string;
+}
+
+interface PasswordResetPayload {
+  userId: string;
+  passwordChangedAt: string | null; // A reset issued before the last password change is void
+}
+
+// Normalize an email the same way for storage and lookup
+const normalizeEmail = (email: string) => {
+  const normalized = validator.normalizeEmail(email);
+  if (!normalized) {
+    throw new CustomError("Invalid email", { statusCode: 400 });
+  }
+  return normalized;
+};
+
+const hashPassword = (password: string) => bcrypt.hash(password, BCRYPT_ROUNDS);
+
+// Public display profile embedded as a post's author (the account email stays private)
+const toAuthorProfile = (user: IUser) => ({
+  id: String(user._id),
+  name: user.name,
+  username: user.username,
+  ...(user.avatarUrl ? { avatarUrl: user.avatarUrl } : {}),
+  ...(user.bio ? { bio: user.bio } : {}),
+  ...(user.social ? { social: user.social } : {}),
+});
+
+// Create a password reset link for a user (used by the forgot flow and by admins)
+const createPasswordResetLink = async (user: IUser) => {
+  const payload: PasswordResetPayload = {
+    userId: String(user._id),
+    passwordChangedAt: user.passwordChangedAt ?? null,
+  };
+  const token = await issueToken("password-reset", payload, env.PASSWORD_RESET_TTL_MINUTES * 60);
+  return {
+    token,
+    url: `${env.CLIENT_URL}/reset-password?token=${token}`,
+    expiresAt: new Date(Date.now() + env.PASSWORD_RESET_TTL_MINUTES * 60 * 1000).toISOString(),
+  };
+};
+
+// Create an account invite link for an email and role
+const createInviteLink = async (payload: InvitePayload) => {
+  const token = await issueToken("invite", payload, env.INVITE_TTL_HOURS * 60 * 60);
+  return {
+    token,
+    url: `${env.CLIENT_URL}/accept-invite?token=${token}`,
+    expiresAt: new Date(Date.now() + env.INVITE_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+  };
+};
+
+// Session details recorded for device listing
+const sessionContext = (req: Request) => ({ userAgent: req.get("user-agent"), ip: req.ip });
+
+// Finish a successful login (after every required factor): record it, start a session and send the tokens
+const completeLogin = async (
+  req: Request,
+  res: Response,
+  user: IUser,
+  delivery: TokenDelivery,
+  extra: Record<string, unknown> = {}
+) => {
+  user.lastLoginAt = new Date().toISOString();
+  await user.save();
+
+  // Start a new session; other devices stay logged in
+  const tokens = await issueTokenPair(user, sessionContext(req));
+
+  logger.info(`User logged in: ${user.email} (session ${tokens.sessionId})`);
+  sendTokens(res, 200, tokens, delivery, extra);
+};
+
+export {
+  InvitePayload,
+  PasswordResetPayload,
+  normalizeEmail,
+  hashPassword,
+  toAuthorProfile,
+  createPasswordResetLink,
+  createInviteLink,
+  sessionContext,
+  completeLogin,
+};
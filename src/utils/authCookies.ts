@@ -0,0 +1,50 @@
+import { Request, Response } from "express";
+
+const REFRESH_COOKIE = "refreshToken";
+const REFRESH_COOKIE_PATH = "/api/auth"; // Only sent to the auth endpoints that consume it
+const REFRESH_COOKIE_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // Matches the session TTL
+
+type TokenDelivery = "body" | "cookie";
+
+const setRefreshCookie = (res: Response, token: string) => {
+  res.cookie(REFRESH_COOKIE, token, {
+    httpOnly: true,
+    secure: true,
+    sameSite: "strict",
+    path: REFRESH_COOKIE_PATH,
+    maxAge: REFRESH_COOKIE_MAX_AGE,
+  });
+};
+
+const clearRefreshCookie = (res: Response) => {
+  res.clearCookie(REFRESH_COOKIE, { httpOnly: true, secure: true, sameSite: "strict", path: REFRESH_COOKIE_PATH });
+};
+
+// Read the refresh token cookie without pulling in a cookie-parsing middleware
+const readRefreshCookie = (req: Request) => {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const index = part.indexOf("=");
+    if (index !== -1 && part.slice(0, index).trim() === REFRESH_COOKIE) {
+      return decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return undefined;
+};
+
+// Send a token pair, with the refresh token either in the JSON body or in an httpOnly cookie
+const sendTokens = (
+  res: Response,
+  statusCode: number,
+  tokens: { accessToken: string; refreshToken: string },
+  delivery: TokenDelivery,
+  extra: Record<string, unknown> = {}
+) => {
+  if (delivery === "cookie") {
+    setRefreshCookie(res, tokens.refreshToken);
+    res.status(statusCode).json({ success: true, ...extra, accessToken: tokens.accessToken });
+  } else {
+    res.status(statusCode).json({ success: true, ...extra, ...tokens });
+  }
+};
+
+export { TokenDelivery, readRefreshCookie, clearRefreshCookie, sendTokens };
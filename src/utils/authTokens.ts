@@ -0,0 +1,193 @@
+import crypto from "crypto";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { v4 as uuidv4 } from "uuid";
+import { redisClient } from "../config/redis";
+import env from "../config/env";
+import { IUser } from "../models";
+import CustomError from "./customError";
+
+const JWT_SECRET = env.JWT_SECRET as string;
+const REFRESH_TTL = 60 * 60 * 24 * 7; // 7 days in seconds, extended on every refresh
+
+// Each login is a session; its refresh tokens form one rotation family
+const sessionKey = (sessionId: string) => `session:${sessionId}`; // Hash of session details and current token hash
+const rotatedKey = (sessionId: string) => `session:${sessionId}:rotated`; // Hashes of already-used refresh tokens
+const userSessionsKey = (userId: string) => `user:sessions:${userId}`; // Set of the user's session ids
+
+interface SessionContext {
+  userAgent?: string | undefined;
+  ip?: string | undefined;
+}
+
+interface SessionInfo {
+  id: string;
+  userId: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+const hashSecret = (secret: string) => crypto.createHash("sha256").update(secret).digest("hex");
+
+// Refresh tokens are "<sessionId>.<secret>"; only the secret's hash is stored
+const parseRefreshToken = (token: string) => {
+  const [sessionId, secret, ...rest] = token.split(".");
+  return sessionId && secret && rest.length === 0 ? { sessionId, secret } : null;
+};
+
+// Swap the session's current token hash for a new one, atomically.
+// Returns 1 when rotated, -1 when an already-rotated token is replayed, 0 when the token is unknown.
+const ROTATE_SCRIPT = `
+local current = redis.call("HGET", KEYS[1], "tokenHash")
+if not current then return 0 end
+if current ~= ARGV[1] then
+  if redis.call("SISMEMBER", KEYS[2], ARGV[1]) == 1 then return -1 end
+  return 0
+end
+redis.call("HSET", KEYS[1], "tokenHash", ARGV[2], "lastUsedAt", ARGV[3], "ip", ARGV[5], "userAgent", ARGV[6])
+redis.call("SADD", KEYS[2], ARGV[1])
+redis.call("EXPIRE", KEYS[1], ARGV[4])
+redis.call("EXPIRE", KEYS[2], ARGV[4])
+return 1
+`;
+
+// Helper to generate access token bound to a session
+const generateAccessToken = (user: IUser, sessionId: string) => {
+  const options: SignOptions = {
+    expiresIn: "1d",
+  };
+  return jwt.sign(
+    { id: String(user._id), email: user.email, username: user.username, role: user.role, sid: sessionId },
+    JWT_SECRET,
+    options
+  );
+};
+
+// Start a new session for a user and issue its first token pair
+const issueTokenPair = async (user: IUser, context: SessionContext) => {
+  const userId = String(user._id);
+  const sessionId = uuidv4();
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const now = new Date().toISOString();
+
+  await redisClient
+    .multi()
+    .hSet(sessionKey(sessionId), {
+      userId,
+      tokenHash: hashSecret(secret),
+      userAgent: context.userAgent ?? "",
+      ip: context.ip ?? "",
+      createdAt: now,
+      lastUsedAt: now,
+    })
+    .expire(sessionKey(sessionId), REFRESH_TTL)
+    .sAdd(userSessionsKey(userId), sessionId)
+    .exec();
+
+  return { sessionId, accessToken: generateAccessToken(user, sessionId), refreshToken: `${sessionId}.${secret}` };
+};
+
+// Exchange a refresh token for a new one. Replaying a rotated token revokes the whole session,
+// since either the client or an attacker is holding a stolen copy.
+const rotateRefreshToken = async (token: string, context: SessionContext) => {
+  const parsed = parseRefreshToken(token);
+  if (!parsed) {
+    throw new CustomError("Invalid refresh token", { statusCode: 401 });
+  }
+
+  const { sessionId } = parsed;
+  const userId = await redisClient.hGet(sessionKey(sessionId), "userId");
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const result = await redisClient.eval(ROTATE_SCRIPT, {
+    keys: [sessionKey(sessionId), rotatedKey(sessionId)],
+    arguments: [
+      hashSecret(parsed.secret),
+      hashSecret(secret),
+      new Date().toISOString(),
+      String(REFRESH_TTL),
+      context.ip ?? "",
+      context.userAgent ?? "",
+    ],
+  });
+
+  if (result === -1 && userId) {
+    await revokeSession(userId, sessionId);
+    throw new CustomError("Refresh token reuse detected; session revoked", { statusCode: 401 });
+  }
+  if (result !== 1 || !userId) {
+    throw new CustomError("Invalid refresh token", { statusCode: 401 });
+  }
+
+  return { userId, sessionId, refreshToken: `${sessionId}.${secret}` };
+};
+
+// Resolve the session a refresh token belongs to, if it is the current token
+const findRefreshTokenSession = async (token: string) => {
+  const parsed = parseRefreshToken(token);
+  if (!parsed) return null;
+
+  const session = await redisClient.hGetAll(sessionKey(parsed.sessionId));
+  if (!session.userId || session.tokenHash !== hashSecret(parsed.secret)) return null;
+  return { userId: session.userId, sessionId: parsed.sessionId };
+};
+
+const sessionExists = async (sessionId: string) => (await redisClient.exists(sessionKey(sessionId))) === 1;
+
+// List a user's live sessions, most recently used first, pruning expired ids
+const listSessions = async (userId: string): Promise<SessionInfo[]> => {
+  const ids = await redisClient.sMembers(userSessionsKey(userId));
+  const sessions: SessionInfo[] = [];
+
+  for (const id of ids) {
+    const session = await redisClient.hGetAll(sessionKey(id));
+    if (!session.userId) {
+      await redisClient.sRem(userSessionsKey(userId), id);
+      continue;
+    }
+    sessions.push({
+      id,
+      userId: session.userId,
+      userAgent: session.userAgent ?? "",
+      ip: session.ip ?? "",
+      createdAt: session.createdAt ?? "",
+      lastUsedAt: session.lastUsedAt ?? "",
+    });
+  }
+
+  return sessions.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+};
+
+// Revoke one session (logout, reuse detection, user-initiated revocation)
+const revokeSession = async (userId: string, sessionId: string) => {
+  await redisClient
+    .multi()
+    .del([sessionKey(sessionId), rotatedKey(sessionId)])
+    .sRem(userSessionsKey(userId), sessionId)
+    .exec();
+};
+
+// Revoke every session of a user, optionally keeping one (password change, role change, disable)
+const revokeAllSessions = async (userId: string, exceptSessionId?: string) => {
+  const ids = await redisClient.sMembers(userSessionsKey(userId));
+  let revoked = 0;
+  for (const id of ids) {
+    if (id === exceptSessionId) continue;
+    await revokeSession(userId, id);
+    revoked++;
+  }
+  return revoked;
+};
+
+export {
+  SessionContext,
+  SessionInfo,
+  generateAccessToken,
+  issueTokenPair,
+  rotateRefreshToken,
+  findRefreshTokenSession,
+  sessionExists,
+  listSessions,
+  revokeSession,
+  revokeAllSessions,
+};
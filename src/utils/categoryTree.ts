@@ -0,0 +1,148 @@
+import mongoose from "mongoose";
+import { BlogPost, Category } from "../models";
+import CustomError from "./customError";
+
+const MAX_CATEGORY_DEPTH = 5; // Levels, counting top-level categories as 1
+
+interface CategorySummary {
+  _id: string;
+  name: string;
+  slug: string;
+}
+
+interface CategoryTreeNode extends CategorySummary {
+  description?: string;
+  postCount: number; // Published posts filed directly under this category
+  totalPostCount: number; // Distinct published posts in this category or any descendant
+  children: CategoryTreeNode[];
+}
+
+interface CategoryGraph {
+  categories: Map<string, CategorySummary & { description?: string; parentId?: string }>;
+  children: Map<string, string[]>;
+}
+
+// Load every category once; the taxonomy is small enough to walk in memory
+const loadCategoryGraph = async (): Promise<CategoryGraph> => {
+  const docs = await Category.find().select("name slug description parentId").sort({ name: 1 }).lean();
+
+  const categories: CategoryGraph["categories"] = new Map();
+  const children = new Map<string, string[]>();
+  for (const doc of docs) {
+    const id = String(doc._id);
+    const parentId = doc.parentId ? String(doc.parentId) : undefined;
+    categories.set(id, {
+      _id: id,
+      name: doc.name,
+      slug: doc.slug,
+      ...(doc.description !== undefined ? { description: doc.description } : {}),
+      ...(parentId ? { parentId } : {}),
+    });
+    if (parentId) children.set(parentId, [...(children.get(parentId) ?? []), id]);
+  }
+
+  return { categories, children };
+};
+
+// Categories from the root down to (and including) the given one
+const categoryPath = (graph: CategoryGraph, id: string): CategorySummary[] => {
+  const path: CategorySummary[] = [];
+  const seen = new Set<string>();
+  for (let current = graph.categories.get(id); current && !seen.has(current._id); ) {
+    seen.add(current._id); // Guards against cycles left by data written before validation existed
+    path.unshift({ _id: current._id, name: current.name, slug: current.slug });
+    current = current.parentId ? graph.categories.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+// Every category below the given one
+const descendantIds = (graph: CategoryGraph, id: string) => {
+  const found = new Set<string>();
+  const queue = [...(graph.children.get(id) ?? [])];
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (found.has(next) || next === id) continue;
+    found.add(next);
+    queue.push(...(graph.children.get(next) ?? []));
+  }
+  return [...found];
+};
+
+// Levels in the subtree rooted at a category (1 for a leaf)
+const subtreeHeight = (graph: CategoryGraph, id: string, seen = new Set<string>()): number => {
+  if (seen.has(id)) return 0;
+  seen.add(id);
+  const heights = (graph.children.get(id) ?? []).map((child) => subtreeHeight(graph, child, seen));
+  return 1 + Math.max(0, ...heights);
+};
+
+// Ensure a category (or a new one, when categoryId is null) may sit under parentId
+const assertValidParent = (graph: CategoryGraph, categoryId: string | null, parentId: string) => {
+  if (!graph.categories.has(parentId)) {
+    throw new CustomError("Parent category not found", { statusCode: 400 });
+  }
+  if (categoryId && (parentId === categoryId || descendantIds(graph, categoryId).includes(parentId))) {
+    throw new CustomError("A category cannot be moved under itself or one of its subcategories", {
+      statusCode: 400,
+    });
+  }
+
+  const depth = categoryPath(graph, parentId).length + (categoryId ? subtreeHeight(graph, categoryId) : 1);
+  if (depth > MAX_CATEGORY_DEPTH) {
+    throw new CustomError(`Categories cannot be nested more than ${MAX_CATEGORY_DEPTH} levels deep`, {
+      statusCode: 400,
+      details: { depth, maxDepth: MAX_CATEGORY_DEPTH },
+    });
+  }
+};
+
+// Nested category tree with direct and subtree post counts
+const buildCategoryTree = async (): Promise<CategoryTreeNode[]> => {
+  const graph = await loadCategoryGraph();
+
+  // Posts grouped by their exact category set, so subtree totals count each post once
+  const combinations: { _id: mongoose.Types.ObjectId[]; count: number }[] = await BlogPost.aggregate([
+    { $match: { status: "published" } },
+    { $group: { _id: "$categories", count: { $sum: 1 } } },
+  ]);
+
+  const direct = new Map<string, number>();
+  const total = new Map<string, number>();
+  for (const { _id: categoryIds, count } of combinations) {
+    const inSubtreeOf = new Set<string>();
+    for (const categoryId of categoryIds.map(String)) {
+      direct.set(categoryId, (direct.get(categoryId) ?? 0) + count);
+      for (const ancestor of categoryPath(graph, categoryId)) inSubtreeOf.add(ancestor._id);
+    }
+    for (const id of inSubtreeOf) total.set(id, (total.get(id) ?? 0) + count);
+  }
+
+  const toNode = (id: string, seen: Set<string>): CategoryTreeNode => {
+    const { parentId, ...category } = graph.categories.get(id)!;
+    seen.add(id);
+    return {
+      ...category,
+      postCount: direct.get(id) ?? 0,
+      totalPostCount: total.get(id) ?? 0,
+      children: (graph.children.get(id) ?? []).filter((child) => !seen.has(child)).map((child) => toNode(child, seen)),
+    };
+  };
+
+  const seen = new Set<string>();
+  return [...graph.categories.values()]
+    .filter((category) => !category.parentId || !graph.categories.has(category.parentId))
+    .map((category) => toNode(category._id, seen));
+};
+
+export {
+  MAX_CATEGORY_DEPTH,
+  CategorySummary,
+  CategoryTreeNode,
+  CategoryGraph,
+  loadCategoryGraph,
+  categoryPath,
+  descendantIds,
+  assertValidParent,
+  buildCategoryTree,
+};
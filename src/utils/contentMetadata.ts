@@ -0,0 +1,95 @@
+import env from "../config/env";
+import { IBlogPost, ITocEntry } from "../models";
+import { RootNode, LexicalNode } from "../types";
+import { extractNodeText, extractDocumentText, createAnchorSlugger } from "./lexical";
+
+const EXCERPT_LENGTH = 200;
+const DESCRIPTION_LENGTH = 160;
+
+// Han, Hiragana and Katakana are read per character rather than per word
+const CJK_CHARACTER = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/g;
+const WORD = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+// Block types whose text can stand in for an excerpt
+const PROSE_TYPES = ["paragraph", "quote", "list"];
+
+interface DerivedContent {
+  wordCount: number;
+  readingTimeMinutes: number;
+  excerpt: string;
+  description: string;
+  toc: ITocEntry[];
+}
+
+// Shorten text at a word boundary, appending an ellipsis when cut
+const truncate = (text: string, max: number) => {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= max) return clean;
+
+  const cut = clean.slice(0, max - 1);
+  const space = cut.lastIndexOf(" ");
+  return `${(space > max * 0.6 ? cut.slice(0, space) : cut).replace(/[\s.,;:!?-]+$/, "")}…`;
+};
+
+// Collect headings in document order, matching the anchor ids produced by the HTML renderer
+const buildToc = (root: RootNode): ITocEntry[] => {
+  const slug = createAnchorSlugger();
+  const toc: ITocEntry[] = [];
+
+  const visit = (node: LexicalNode) => {
+    if (node.type === "heading") {
+      const text = extractNodeText(node).trim();
+      toc.push({ id: slug(text), text, level: Number(String(node.tag).slice(1)) || 2 });
+    }
+    if (Array.isArray(node.children)) node.children.forEach(visit);
+  };
+  visit(root);
+
+  return toc;
+};
+
+// Walk a Lexical document and compute its derived metadata
+const deriveContentMetadata = (root: RootNode): DerivedContent => {
+  const blocks: LexicalNode[] = root.children ?? [];
+  const text = extractDocumentText(root);
+
+  const cjkCharacters = (text.match(CJK_CHARACTER) ?? []).length;
+  const words = (text.replace(CJK_CHARACTER, " ").match(WORD) ?? []).length;
+  const minutes = words / env.READING_WPM + cjkCharacters / env.READING_CJK_CPM;
+
+  const prose = blocks
+    .filter((block) => PROSE_TYPES.includes(block.type))
+    .map((block) => extractNodeText(block))
+    .join(" ");
+
+  return {
+    wordCount: words + cjkCharacters,
+    readingTimeMinutes: words + cjkCharacters === 0 ? 0 : Math.max(1, Math.ceil(minutes)),
+    excerpt: truncate(prose, EXCERPT_LENGTH),
+    description: truncate(prose, DESCRIPTION_LENGTH),
+    toc: buildToc(root),
+  };
+};
+
+// Recompute derived fields on a blog. Excerpt and description are only filled when missing or
+// when they still hold the value derived from the previous content (i.e. were never hand-written).
+const applyDerivedMetadata = (blog: IBlogPost, previousContent?: RootNode) => {
+  const derived = deriveContentMetadata(blog.content);
+  const previous = previousContent ? deriveContentMetadata(previousContent) : undefined;
+  const metadata = blog.metadata ?? {};
+
+  if (!blog.excerpt || (previous && blog.excerpt === (previous.excerpt || blog.title))) {
+    blog.excerpt = derived.excerpt || blog.title;
+  }
+  if (!metadata.description || (previous && metadata.description === previous.description)) {
+    if (derived.description) metadata.description = derived.description;
+  }
+
+  metadata.wordCount = metadata.overrides?.wordCount ?? derived.wordCount;
+  metadata.readingTimeMinutes = metadata.overrides?.readingTimeMinutes ?? derived.readingTimeMinutes;
+
+  blog.metadata = metadata;
+  blog.toc = derived.toc;
+};
+
+export { deriveContentMetadata, applyDerivedMetadata, DerivedContent };
@@ -0,0 +1,147 @@
+interface FeedAuthor {
+  name: string;
+  username: string;
+  url?: string;
+}
+
+interface FeedItem {
+  id: string; // A URI that stays the same for the life of the post
+  title: string;
+  url: string;
+  summary: string;
+  contentHtml?: string;
+  publishedAt: string;
+  updatedAt: string;
+  author: FeedAuthor;
+  categories: string[];
+  image?: string;
+}
+
+interface FeedMeta {
+  title: string;
+  description: string;
+  siteUrl: string; // HTML page the feed describes
+  feedUrl: string; // Canonical URL of this feed document
+  updatedAt: string;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Strip characters that are not allowed anywhere in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, "");
+
+const imageType = (url: string) => {
+  const extension = /\.([a-z0-9]+)(?:[?#].*)?$/i.exec(url)?.[1]?.toLowerCase();
+  return (extension && IMAGE_TYPES[extension]) || "image/jpeg";
+};
+
+// RSS 2.0 with Atom self link, Dublin Core creator and content:encoded for full content
+const buildRss = (meta: FeedMeta, items: FeedItem[]) => {
+  const entries = items.map((item) =>
+    [
+      "    <item>",
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+      `      <pubDate>${new Date(item.publishedAt).toUTCString()}</pubDate>`,
+      `      <dc:creator>${escapeXml(item.author.name)}</dc:creator>`,
+      ...item.categories.map((category) => `      <category>${escapeXml(category)}</category>`),
+      `      <description>${escapeXml(item.summary)}</description>`,
+      ...(item.contentHtml ? [`      <content:encoded>${escapeXml(item.contentHtml)}</content:encoded>`] : []),
+      ...(item.image
+        ? [`      <enclosure url="${escapeXml(item.image)}" length="0" type="${imageType(item.image)}" />`]
+        : []),
+      "    </item>",
+    ].join("\n")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:content="http://purl.org/rss/1.0/modules/content/">',
+    "  <channel>",
+    `    <title>${escapeXml(meta.title)}</title>`,
+    `    <link>${escapeXml(meta.siteUrl)}</link>`,
+    `    <description>${escapeXml(meta.description)}</description>`,
+    `    <lastBuildDate>${new Date(meta.updatedAt).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(meta.feedUrl)}" rel="self" type="application/rss+xml" />`,
+    ...entries,
+    "  </channel>",
+    "</rss>",
+  ].join("\n");
+};
+
+// Atom 1.0
+const buildAtom = (meta: FeedMeta, items: FeedItem[]) => {
+  const entries = items.map((item) =>
+    [
+      "  <entry>",
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+      `    <id>${escapeXml(item.id)}</id>`,
+      `    <published>${new Date(item.publishedAt).toISOString()}</published>`,
+      `    <updated>${new Date(item.updatedAt).toISOString()}</updated>`,
+      "    <author>",
+      `      <name>${escapeXml(item.author.name)}</name>`,
+      ...(item.author.url ? [`      <uri>${escapeXml(item.author.url)}</uri>`] : []),
+      "    </author>",
+      ...item.categories.map((category) => `    <category term="${escapeXml(category)}" />`),
+      `    <summary type="text">${escapeXml(item.summary)}</summary>`,
+      ...(item.contentHtml ? [`    <content type="html">${escapeXml(item.contentHtml)}</content>`] : []),
+      ...(item.image
+        ? [`    <link rel="enclosure" type="${imageType(item.image)}" href="${escapeXml(item.image)}" />`]
+        : []),
+      "  </entry>",
+    ].join("\n")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(meta.title)}</title>`,
+    ...(meta.description ? [`  <subtitle>${escapeXml(meta.description)}</subtitle>`] : []),
+    `  <link rel="alternate" type="text/html" href="${escapeXml(meta.siteUrl)}" />`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(meta.feedUrl)}" />`,
+    `  <id>${escapeXml(meta.feedUrl)}</id>`,
+    `  <updated>${new Date(meta.updatedAt).toISOString()}</updated>`,
+    ...entries,
+    "</feed>",
+  ].join("\n");
+};
+
+// JSON Feed 1.1
+const buildJsonFeed = (meta: FeedMeta, items: FeedItem[]) => ({
+  version: "https://jsonfeed.org/version/1.1",
+  title: meta.title,
+  home_page_url: meta.siteUrl,
+  feed_url: meta.feedUrl,
+  ...(meta.description ? { description: meta.description } : {}),
+  items: items.map((item) => ({
+    id: item.id,
+    url: item.url,
+    title: item.title,
+    summary: item.summary,
+    ...(item.contentHtml ? { content_html: item.contentHtml } : { content_text: item.summary }),
+    ...(item.image ? { image: item.image } : {}),
+    date_published: new Date(item.publishedAt).toISOString(),
+    date_modified: new Date(item.updatedAt).toISOString(),
+    authors: [{ name: item.author.name, ...(item.author.url ? { url: item.author.url } : {}) }],
+    tags: item.categories,
+  })),
+});
+
+export { buildRss, buildAtom, buildJsonFeed, escapeXml, FeedItem, FeedMeta, FeedAuthor };
@@ -0,0 +1,104 @@
+import CustomError from "./customError";
+
+// Front matter supports the YAML subset needed for post fields: scalars and string lists
+type FrontMatterValue = string | string[];
+type FrontMatter = Record<string, FrontMatterValue>;
+
+const FENCE = /^---\s*$/;
+const KEY_VALUE = /^([A-Za-z_][\w-]*):(?:\s+(.*))?$/;
+const LIST_ENTRY = /^\s+-\s+(.*)$/;
+
+// Parse a single YAML scalar (plain, single- or double-quoted)
+const parseScalar = (raw: string, line: number): string => {
+  const value = raw.trim();
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new CustomError(`Invalid front matter string on line ${line}`, { statusCode: 400 });
+    }
+  }
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) {
+      throw new CustomError(`Invalid front matter string on line ${line}`, { statusCode: 400 });
+    }
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value.replace(/\s+#.*$/, ""); // Strip trailing comments from plain scalars
+};
+
+// Parse an inline list such as [a, "b, c", 'd']
+const parseInlineList = (raw: string, line: number): string[] => {
+  const inner = raw.trim().slice(1, -1);
+  const items: string[] = [];
+  const pattern = /\s*("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+)\s*(?:,|$)/g;
+  let match: RegExpExecArray | null;
+  while (inner.trim() && (match = pattern.exec(inner)) !== null && match[0] !== "") {
+    items.push(parseScalar(match[1]!, line));
+  }
+  return items;
+};
+
+// Split a document into its front matter and body
+const parseFrontMatter = (source: string): { data: FrontMatter; body: string } => {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  if (!lines[0] || !FENCE.test(lines[0])) {
+    return { data: {}, body: source };
+  }
+
+  const end = lines.findIndex((line, index) => index > 0 && (FENCE.test(line) || /^\.\.\.\s*$/.test(line)));
+  if (end === -1) {
+    throw new CustomError("Unterminated front matter", { statusCode: 400 });
+  }
+
+  const data: FrontMatter = {};
+  let listKey: string | null = null;
+
+  for (let i = 1; i < end; i++) {
+    const line = lines[i]!;
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    const entry = LIST_ENTRY.exec(line);
+    if (entry && listKey) {
+      (data[listKey] as string[]).push(parseScalar(entry[1]!, i + 1));
+      continue;
+    }
+
+    const pair = KEY_VALUE.exec(line);
+    if (!pair) {
+      throw new CustomError(`Invalid front matter on line ${i + 1}`, { statusCode: 400 });
+    }
+
+    const [, key, raw] = pair as unknown as [string, string, string | undefined];
+    if (raw === undefined || raw.trim() === "") {
+      data[key] = [];
+      listKey = key;
+    } else {
+      data[key] = raw.trim().startsWith("[") && raw.trim().endsWith("]") ? parseInlineList(raw, i + 1) : parseScalar(raw, i + 1);
+      listKey = null;
+    }
+  }
+
+  return { data, body: lines.slice(end + 1).join("\n") };
+};
+
+// Quote scalars that plain YAML would misread
+const formatScalar = (value: string) => (/^[\w][\w .,/@+-]*$/.test(value) && !/\s$/.test(value) ? value : JSON.stringify(value));
+
+// Serialize front matter, skipping empty values
+const serializeFrontMatter = (data: Record<string, FrontMatterValue | undefined>) => {
+  const lines = ["---"];
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined || value === "") continue;
+    if (Array.isArray(value)) {
+      if (value.length === 0) continue;
+      lines.push(`${key}:`, ...value.map((item) => `  - ${formatScalar(item)}`));
+    } else {
+      lines.push(`${key}: ${formatScalar(value)}`);
+    }
+  }
+  lines.push("---");
+  return lines.join("\n");
+};
+
+export { parseFrontMatter, serializeFrontMatter, FrontMatter, FrontMatterValue };
@@ -0,0 +1,27 @@
+const MIN_KEYWORD_LENGTH = 3;
+
+// Common English words that say nothing about a post's topic
+const STOPWORDS = new Set(
+  (
+    "the and for are but not you all any can had her was one our out has him his how its may new now old see " +
+    "two who did get let put say she too use that with have this will your from they know want been good much " +
+    "some time very when come here just like long make many more only over such take than them well were what " +
+    "into also each most then there their these those which would could should about after again other where " +
+    "while because being between both does doing during through under until before above below"
+  ).split(" ")
+);
+
+// The most frequent meaningful words of a text, most frequent first
+const extractKeywords = (text: string, limit: number) => {
+  const counts = new Map<string, number>();
+  for (const [word] of text.toLowerCase().matchAll(/\p{L}[\p{L}\p{N}]*/gu)) {
+    if (word.length < MIN_KEYWORD_LENGTH || STOPWORDS.has(word)) continue;
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return [...counts]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([word]) => word);
+};
+
+export { extractKeywords };
@@ -0,0 +1,36 @@
+import slugify from "slugify";
+import { LexicalNode, RootNode } from "../types";
+
+// Concatenate the text of every leaf under a node
+const extractNodeText = (node: LexicalNode): string => {
+  if (typeof node.text === "string") return node.text;
+  if (node.type === "linebreak") return "\n";
+  if (!Array.isArray(node.children)) return "";
+  return node.children.map((child: LexicalNode) => extractNodeText(child)).join("");
+};
+
+// Plain text of a whole document, one line per top-level block
+const extractDocumentText = (root: RootNode) =>
+  (root.children ?? []).map((block: LexicalNode) => extractNodeText(block)).join("\n");
+
+// Every image source in a document, in order
+const collectImageSources = (node: LexicalNode): string[] => {
+  if (node.type === "image" && typeof node.src === "string") return [node.src];
+  if (!Array.isArray(node.children)) return [];
+  return node.children.flatMap((child: LexicalNode) => collectImageSources(child));
+};
+
+// Produce unique, stable anchor slugs for headings within one document
+const createAnchorSlugger = () => {
+  const seen = new Map<string, number>();
+
+  return (text: string) => {
+    // Drop punctuation first so symbols are not spelled out (e.g. "<" as "less")
+    const base = slugify(text.replace(/[^\p{L}\p{N}\s_-]/gu, " "), { lower: true, strict: true }) || "section";
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  };
+};
+
+export { extractNodeText, extractDocumentText, collectImageSources, createAnchorSlugger };
@@ -0,0 +1,135 @@
+import { RootNode } from "../types";
+import { extractNodeText } from "./lexical";
+
+type DiffOp = "equal" | "insert" | "delete";
+
+interface TextSegment {
+  op: DiffOp;
+  text: string;
+}
+
+interface NodeChange {
+  op: "added" | "removed" | "modified";
+  type: string;
+  fromPath?: string; // Path of the node in the older document
+  toPath?: string; // Path of the node in the newer document
+  before?: string; // Plain text of the node in the older document
+  after?: string; // Plain text of the node in the newer document
+  textDiff?: TextSegment[];
+}
+
+interface LexicalDiff {
+  changes: NodeChange[];
+  stats: { added: number; removed: number; modified: number; unchanged: number };
+}
+
+// Longest-common-subsequence alignment of two sequences, returned as edit operations
+const align = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean) => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table: number[] = new Array(rows * cols).fill(0);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = equals(a[i]!, b[j]!)
+        ? table[(i + 1) * cols + j + 1]! + 1
+        : Math.max(table[(i + 1) * cols + j]!, table[i * cols + j + 1]!);
+    }
+  }
+
+  const ops: { op: DiffOp; i: number; j: number }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equals(a[i]!, b[j]!)) {
+      ops.push({ op: "equal", i: i++, j: j++ });
+    } else if (table[(i + 1) * cols + j]! >= table[i * cols + j + 1]!) {
+      ops.push({ op: "delete", i: i++, j });
+    } else {
+      ops.push({ op: "insert", i, j: j++ });
+    }
+  }
+  while (i < a.length) ops.push({ op: "delete", i: i++, j });
+  while (j < b.length) ops.push({ op: "insert", i, j: j++ });
+
+  return ops;
+};
+
+// Word-level diff of two strings, merging adjacent segments with the same operation
+const diffText = (before: string, after: string): TextSegment[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  const segments: TextSegment[] = [];
+
+  for (const { op, i, j } of align(a, b, (x, y) => x === y)) {
+    const text = op === "insert" ? b[j]! : a[i]!;
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) {
+      last.text += text;
+    } else {
+      segments.push({ op, text });
+    }
+  }
+
+  return segments;
+};
+
+// Diff two Lexical documents block by block, with a text diff for modified blocks
+const diffLexical = (from: RootNode, to: RootNode): LexicalDiff => {
+  const fromBlocks = (from.children || []).map((node) => ({ node, key: JSON.stringify(node) }));
+  const toBlocks = (to.children || []).map((node) => ({ node, key: JSON.stringify(node) }));
+
+  const changes: NodeChange[] = [];
+  const stats = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  const ops = align(fromBlocks, toBlocks, (x, y) => x.key === y.key);
+
+  for (let k = 0; k < ops.length; k++) {
+    const { op, i, j } = ops[k]!;
+
+    if (op === "equal") {
+      stats.unchanged++;
+      continue;
+    }
+
+    // A removal immediately followed by an insertion of the same type is a modification
+    const next = ops[k + 1];
+    if (op === "delete" && next && next.op === "insert" && fromBlocks[i]!.node.type === toBlocks[next.j]!.node.type) {
+      const before = extractNodeText(fromBlocks[i]!.node);
+      const after = extractNodeText(toBlocks[next.j]!.node);
+      changes.push({
+        op: "modified",
+        type: fromBlocks[i]!.node.type,
+        fromPath: `children[${i}]`,
+        toPath: `children[${next.j}]`,
+        before,
+        after,
+        textDiff: diffText(before, after),
+      });
+      stats.modified++;
+      k++;
+      continue;
+    }
+
+    if (op === "delete") {
+      changes.push({
+        op: "removed",
+        type: fromBlocks[i]!.node.type,
+        fromPath: `children[${i}]`,
+        before: extractNodeText(fromBlocks[i]!.node),
+      });
+      stats.removed++;
+    } else {
+      changes.push({
+        op: "added",
+        type: toBlocks[j]!.node.type,
+        toPath: `children[${j}]`,
+        after: extractNodeText(toBlocks[j]!.node),
+      });
+      stats.added++;
+    }
+  }
+
+  return { changes, stats };
+};
+
+export { diffLexical, diffText, TextSegment, NodeChange, LexicalDiff };
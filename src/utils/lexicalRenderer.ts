@@ -0,0 +1,145 @@
+import { RootNode, LexicalNode } from "../types";
+import { extractNodeText, createAnchorSlugger } from "./lexical";
+import { isSafeUrl, LINK_SCHEMES, IMAGE_SCHEMES } from "./lexicalValidator";
+
+// Lexical text format bitmask, wrapped innermost first
+const TEXT_FORMATS: [number, string][] = [
+  [16, "code"],
+  [1, "strong"],
+  [2, "em"],
+  [4, "s"],
+  [8, "u"],
+  [32, "sub"],
+  [64, "sup"],
+  [128, "mark"],
+];
+
+// rel tokens a link may request in addition to the enforced ones
+const ALLOWED_REL = ["nofollow", "ugc", "sponsored"];
+
+interface RenderContext {
+  renderChildren: (node: LexicalNode) => string;
+  slug: (text: string) => string; // Unique anchor slug within the document
+}
+
+type NodeSerializer = (node: LexicalNode, context: RenderContext) => string;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Render attributes, skipping null/undefined values
+const attrs = (values: Record<string, string | number | null | undefined>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== null && value !== undefined && value !== "")
+    .map(([name, value]) => ` ${name}="${escapeHtml(String(value))}"`)
+    .join("");
+
+const safeUrl = (value: unknown, schemes: string[]) =>
+  typeof value === "string" && isSafeUrl(schemes)(value) === null ? value : null;
+
+const dimension = (value: unknown) => (typeof value === "number" && value > 0 ? Math.round(value) : null);
+
+const serializers = new Map<string, NodeSerializer>();
+
+// Register (or replace) the serializer for a node type; new types also need registerNodeSpec
+// in lexicalValidator so documents using them pass validation
+const registerSerializer = (type: string, serializer: NodeSerializer) => {
+  serializers.set(type, serializer);
+};
+
+// Built-in serializers
+registerSerializer("root", (node, { renderChildren }) => renderChildren(node));
+
+registerSerializer("paragraph", (node, { renderChildren }) => `<p>${renderChildren(node)}</p>`);
+
+registerSerializer("heading", (node, { renderChildren, slug }) => {
+  const tag = /^h[1-6]$/.test(node.tag) ? node.tag : "h2";
+  return `<${tag}${attrs({ id: slug(extractNodeText(node)) })}>${renderChildren(node)}</${tag}>`;
+});
+
+registerSerializer("quote", (node, { renderChildren }) => `<blockquote>${renderChildren(node)}</blockquote>`);
+
+registerSerializer("list", (node, { renderChildren }) => {
+  const tag = node.listType === "number" ? "ol" : "ul";
+  const start = tag === "ol" && typeof node.start === "number" && node.start !== 1 ? node.start : null;
+  const className = node.listType === "check" ? "checklist" : null;
+  return `<${tag}${attrs({ start, class: className })}>${renderChildren(node)}</${tag}>`;
+});
+
+registerSerializer("listitem", (node, { renderChildren }) => {
+  const checked = typeof node.checked === "boolean" ? String(node.checked) : null;
+  return `<li${attrs({ role: checked ? "checkbox" : null, "aria-checked": checked })}>${renderChildren(node)}</li>`;
+});
+
+registerSerializer("code", (node) => {
+  const language = typeof node.language === "string" && /^[\w#+.-]{1,32}$/.test(node.language) ? node.language : null;
+  const className = language ? `language-${language}` : null;
+  return `<pre><code${attrs({ class: className })}>${escapeHtml(extractNodeText(node))}</code></pre>`;
+});
+
+const renderLink: NodeSerializer = (node, { renderChildren }) => {
+  const href = safeUrl(node.url, LINK_SCHEMES);
+  if (!href) return renderChildren(node);
+
+  const requested = typeof node.rel === "string" ? node.rel.split(/\s+/) : [];
+  const rel = ["noopener", "noreferrer", ...requested.filter((token: string) => ALLOWED_REL.includes(token))];
+  const target = node.target === "_blank" ? "_blank" : null;
+  const title = typeof node.title === "string" ? node.title : null;
+
+  return `<a${attrs({ href, rel: rel.join(" "), target, title })}>${renderChildren(node)}</a>`;
+};
+registerSerializer("link", renderLink);
+registerSerializer("autolink", renderLink);
+
+registerSerializer("image", (node) => {
+  const src = safeUrl(node.src, IMAGE_SCHEMES);
+  if (!src) return "";
+
+  const img = `<img${attrs({
+    src,
+    alt: typeof node.altText === "string" ? node.altText : "",
+    width: dimension(node.width),
+    height: dimension(node.height),
+    loading: "lazy",
+  })}>`;
+  if (typeof node.caption !== "string" || !node.caption) return img;
+  return `<figure>${img}<figcaption>${escapeHtml(node.caption)}</figcaption></figure>`;
+});
+
+registerSerializer("text", (node) => {
+  let html = escapeHtml(typeof node.text === "string" ? node.text : "");
+  const format = typeof node.format === "number" ? node.format : 0;
+  for (const [bit, tag] of TEXT_FORMATS) {
+    if (format & bit) html = `<${tag}>${html}</${tag}>`;
+  }
+  return html;
+});
+
+registerSerializer("code-highlight", (node) => escapeHtml(typeof node.text === "string" ? node.text : ""));
+registerSerializer("linebreak", () => "<br>");
+registerSerializer("tab", () => "\t");
+registerSerializer("horizontalrule", () => "<hr>");
+
+// Render a Lexical document to sanitized semantic HTML
+const renderLexicalToHtml = (root: RootNode): string => {
+  const context: RenderContext = {
+    slug: createAnchorSlugger(),
+    renderChildren: (node) =>
+      Array.isArray(node.children) ? node.children.map((child: LexicalNode) => renderNode(child)).join("") : "",
+  };
+
+  // Unknown node types fall back to their children so no raw data leaks into the output
+  const renderNode = (node: LexicalNode): string => {
+    const serializer = serializers.get(node.type);
+    return serializer ? serializer(node, context) : context.renderChildren(node);
+  };
+
+  return renderNode(root);
+};
+
+export { renderLexicalToHtml, registerSerializer, escapeHtml, NodeSerializer, RenderContext };
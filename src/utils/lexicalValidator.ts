@@ -0,0 +1,233 @@
+import { RootNode } from "../types";
+import CustomError from "./customError";
+
+const MAX_DEPTH = 32; // Deepest allowed nesting below the root
+const MAX_NODES = 10000; // Largest allowed document, counted in nodes
+const MAX_ERRORS = 50; // Stop collecting errors past this point
+const MAX_URL_LENGTH = 2048;
+
+const LINK_SCHEMES = ["http", "https", "mailto", "tel"];
+const IMAGE_SCHEMES = ["http", "https"];
+
+interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Returns an error message when the value is invalid, otherwise null
+type FieldCheck = (value: unknown) => string | null;
+
+interface NodeSpec {
+  element: boolean; // Element nodes must carry a children array, leaves must not
+  required?: Record<string, FieldCheck>;
+  optional?: Record<string, FieldCheck>;
+}
+
+// Field checks
+const isString: FieldCheck = (value) => (typeof value === "string" ? null : "must be a string");
+
+const isBoolean: FieldCheck = (value) => (typeof value === "boolean" ? null : "must be a boolean");
+
+const isNonNegativeInt: FieldCheck = (value) =>
+  Number.isInteger(value) && (value as number) >= 0 ? null : "must be a non-negative integer";
+
+const isDimension: FieldCheck = (value) =>
+  value === "inherit" || (typeof value === "number" && Number.isFinite(value) && value >= 0)
+    ? null
+    : 'must be a non-negative number or "inherit"';
+
+const oneOf =
+  (...allowed: (string | null)[]): FieldCheck =>
+  (value) =>
+    allowed.includes(value as string | null) ? null : `must be one of: ${allowed.map(String).join(", ")}`;
+
+const matches =
+  (pattern: RegExp, description: string): FieldCheck =>
+  (value) =>
+    typeof value === "string" && pattern.test(value) ? null : description;
+
+// Accept relative URLs and absolute URLs whose scheme is on the allow-list
+const isSafeUrl =
+  (schemes: string[]): FieldCheck =>
+  (value) => {
+    if (typeof value !== "string" || value.length === 0) return "must be a non-empty string";
+    if (value.length > MAX_URL_LENGTH) return `must be at most ${MAX_URL_LENGTH} characters`;
+    // Browsers ignore control characters and whitespace inside schemes, so reject them outright
+    if (/[\u0000- \u007f]/.test(value)) return "must not contain whitespace or control characters";
+
+    const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(value);
+    if (scheme && !schemes.includes(scheme[1]!.toLowerCase())) {
+      return `uses a disallowed URL scheme (allowed: ${schemes.join(", ")})`;
+    }
+    return null;
+  };
+
+// Fields any node may carry
+const COMMON_FIELDS: Record<string, FieldCheck> = {
+  version: isNonNegativeInt,
+};
+
+// Fields any element node may carry
+const ELEMENT_FIELDS: Record<string, FieldCheck> = {
+  direction: oneOf("ltr", "rtl", null),
+  format: (value) =>
+    value === "" || typeof value === "number" || oneOf("left", "start", "center", "right", "end", "justify")(value) === null
+      ? null
+      : "must be an alignment",
+  indent: isNonNegativeInt,
+};
+
+// Allow-list of node types with their per-type fields
+const NODE_SPECS: Record<string, NodeSpec> = {
+  root: { element: true },
+  paragraph: { element: true, optional: { textFormat: isNonNegativeInt, textStyle: isString } },
+  heading: { element: true, required: { tag: oneOf("h1", "h2", "h3", "h4", "h5", "h6") } },
+  quote: { element: true },
+  list: {
+    element: true,
+    required: { listType: oneOf("bullet", "number", "check") },
+    optional: { tag: oneOf("ul", "ol"), start: isNonNegativeInt },
+  },
+  listitem: { element: true, optional: { value: isNonNegativeInt, checked: isBoolean } },
+  code: { element: true, optional: { language: matches(/^[\w#+.-]{1,32}$/, "must be a valid language identifier") } },
+  link: {
+    element: true,
+    required: { url: isSafeUrl(LINK_SCHEMES) },
+    optional: { rel: isString, target: oneOf("_blank", "_self", null), title: isString },
+  },
+  autolink: { element: true, required: { url: isSafeUrl(LINK_SCHEMES) } },
+  text: {
+    element: false,
+    required: { text: isString },
+    optional: {
+      format: isNonNegativeInt,
+      detail: isNonNegativeInt,
+      mode: oneOf("normal", "token", "segmented"),
+      style: isString,
+    },
+  },
+  "code-highlight": { element: false, required: { text: isString }, optional: { format: isNonNegativeInt } },
+  image: {
+    element: false,
+    required: { src: isSafeUrl(IMAGE_SCHEMES), altText: isString },
+    optional: { width: isDimension, height: isDimension, maxWidth: isDimension, caption: isString },
+  },
+  linebreak: { element: false },
+  tab: { element: false, optional: { text: isString } },
+  horizontalrule: { element: false },
+};
+
+// Register (or replace) the spec for a node type. Custom nodes given a serializer with
+// registerSerializer need one too, or documents containing them are rejected on write.
+const registerNodeSpec = (type: string, spec: NodeSpec) => {
+  if (type === "root") throw new Error("The root node spec cannot be replaced");
+  NODE_SPECS[type] = spec;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Walk the tree, collecting issues with their precise path
+const validateNode = (
+  node: unknown,
+  path: string,
+  depth: number,
+  state: { nodes: number; issues: ValidationIssue[] }
+) => {
+  const report = (subPath: string, message: string) => {
+    if (state.issues.length < MAX_ERRORS) state.issues.push({ path: subPath, message });
+  };
+
+  if (state.issues.length >= MAX_ERRORS) return;
+
+  state.nodes++;
+  if (state.nodes > MAX_NODES) {
+    if (state.nodes === MAX_NODES + 1) report(path, `document exceeds the maximum of ${MAX_NODES} nodes`);
+    return;
+  }
+  if (depth > MAX_DEPTH) {
+    report(path, `nesting exceeds the maximum depth of ${MAX_DEPTH}`);
+    return;
+  }
+  if (!isPlainObject(node)) {
+    report(path, "must be an object");
+    return;
+  }
+
+  const type = node.type;
+  if (typeof type !== "string") {
+    report(`${path}.type`, "must be a string");
+    return;
+  }
+  const spec = Object.prototype.hasOwnProperty.call(NODE_SPECS, type) ? NODE_SPECS[type] : undefined;
+  if (!spec) {
+    report(`${path}.type`, `unsupported node type "${type}"`);
+    return;
+  }
+  if (type === "root" && depth > 0) {
+    report(`${path}.type`, "root node is only allowed at the top level");
+    return;
+  }
+
+  for (const [field, check] of Object.entries(spec.required ?? {})) {
+    if (node[field] === undefined) {
+      report(`${path}.${field}`, "is required");
+      continue;
+    }
+    const message = check(node[field]);
+    if (message) report(`${path}.${field}`, message);
+  }
+
+  const optional = { ...COMMON_FIELDS, ...(spec.element ? ELEMENT_FIELDS : {}), ...spec.optional };
+  for (const [field, check] of Object.entries(optional)) {
+    if (node[field] === undefined) continue;
+    const message = check(node[field]);
+    if (message) report(`${path}.${field}`, message);
+  }
+
+  if (!spec.element) {
+    if (node.children !== undefined) report(`${path}.children`, `is not allowed on "${type}" nodes`);
+    return;
+  }
+  if (!Array.isArray(node.children)) {
+    report(`${path}.children`, "must be an array");
+    return;
+  }
+  node.children.forEach((child, index) => validateNode(child, `${path}.children[${index}]`, depth + 1, state));
+};
+
+// Validate a Lexical document, throwing a 422 with every issue found
+const validateLexicalDocument = (value: unknown, path = "content"): RootNode => {
+  const state = { nodes: 0, issues: [] as ValidationIssue[] };
+
+  if (!isPlainObject(value) || value.type !== "root") {
+    state.issues.push({ path: `${path}.type`, message: 'document must have a "root" node at the top level' });
+  } else {
+    validateNode(value, path, 0, state);
+  }
+
+  if (state.issues.length > 0) {
+    throw new CustomError("Invalid content", { statusCode: 422, details: state.issues });
+  }
+
+  return value as RootNode;
+};
+
+export {
+  validateLexicalDocument,
+  registerNodeSpec,
+  isSafeUrl,
+  isString,
+  isBoolean,
+  isNonNegativeInt,
+  oneOf,
+  matches,
+  ValidationIssue,
+  FieldCheck,
+  NodeSpec,
+  NODE_SPECS,
+  LINK_SCHEMES,
+  IMAGE_SCHEMES,
+  MAX_DEPTH,
+  MAX_NODES,
+};
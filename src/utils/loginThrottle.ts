@@ -0,0 +1,123 @@
+import { redisClient } from "../config/redis";
+import env from "../config/env";
+import { logger } from "./logger";
+
+type LockScope = "account" | "ip";
+
+interface LoginAttempt {
+  email: string;
+  ip: string;
+}
+
+interface LockoutStatus {
+  locked: boolean;
+  scope?: LockScope;
+  retryAfterSeconds?: number;
+  lockedUntil?: string;
+  remainingAttempts?: number;
+}
+
+const BASE_DELAY_MS = 250; // Delay after the first failure, doubled per further failure
+const MAX_DELAY_MS = 5000;
+const SPRAY_THRESHOLD = 5; // Distinct accounts failed from one IP before it is reported
+const DISTRIBUTED_THRESHOLD = 3; // Distinct IPs failing on one account before it is reported
+
+const failKey = (scope: LockScope, id: string) => `login:fail:${scope}:${id}`;
+const lockKey = (scope: LockScope, id: string) => `login:lock:${scope}:${id}`;
+const sprayKey = (ip: string) => `login:spray:${ip}`; // Accounts tried from an IP
+const sourcesKey = (email: string) => `login:sources:${email}`; // IPs that failed on an account
+
+const windowSeconds = () => env.LOGIN_FAILURE_WINDOW_MINUTES * 60;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const lockedStatus = (scope: LockScope, ttlSeconds: number): LockoutStatus => ({
+  locked: true,
+  scope,
+  retryAfterSeconds: ttlSeconds,
+  lockedUntil: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+});
+
+// Return the active lock for the attempt, or null. Before allowing the attempt, waits longer the more
+// recent failures the account has, so online guessing slows down well before the lockout.
+const checkLoginAllowed = async ({ email, ip }: LoginAttempt): Promise<LockoutStatus | null> => {
+  const [accountLockTtl, ipLockTtl, failures] = await Promise.all([
+    redisClient.ttl(lockKey("account", email)),
+    redisClient.ttl(lockKey("ip", ip)),
+    redisClient.get(failKey("account", email)),
+  ]);
+
+  if (accountLockTtl > 0) return lockedStatus("account", accountLockTtl);
+  if (ipLockTtl > 0) return lockedStatus("ip", ipLockTtl);
+
+  const count = Number(failures ?? 0);
+  if (count > 0) await sleep(Math.min(BASE_DELAY_MS * 2 ** (count - 1), MAX_DELAY_MS));
+  return null;
+};
+
+// Count one failure against a scope; locks it when the limit is reached. Returns attempts left.
+const countFailure = async (scope: LockScope, id: string, max: number) => {
+  const [count] = (await redisClient
+    .multi()
+    .incr(failKey(scope, id))
+    .expire(failKey(scope, id), windowSeconds(), "NX")
+    .exec()) as unknown as [number];
+
+  if (count < max) return max - count;
+
+  await redisClient
+    .multi()
+    .set(lockKey(scope, id), "1", { EX: env.LOGIN_LOCKOUT_MINUTES * 60 })
+    .del(failKey(scope, id))
+    .exec();
+  logger.warn(`Login locked for ${scope} ${id} after ${count} failed attempts`);
+  return 0;
+};
+
+// Track a correlation set and report once when it reaches the threshold
+const trackPattern = async (key: string, member: string, threshold: number, message: string) => {
+  const [, size] = (await redisClient
+    .multi()
+    .sAdd(key, member)
+    .sCard(key)
+    .expire(key, windowSeconds(), "NX")
+    .exec()) as unknown as [number, number];
+
+  if (size === threshold) logger.warn(message);
+};
+
+// Record a failed login for the account and the IP, and report suspicious patterns
+const recordLoginFailure = async ({ email, ip }: LoginAttempt): Promise<LockoutStatus> => {
+  const accountLeft = await countFailure("account", email, env.LOGIN_MAX_ACCOUNT_FAILURES);
+  const ipLeft = await countFailure("ip", ip, env.LOGIN_MAX_IP_FAILURES);
+
+  await trackPattern(
+    sprayKey(ip),
+    email,
+    SPRAY_THRESHOLD,
+    `Possible credential stuffing: failed logins for ${SPRAY_THRESHOLD} accounts from IP ${ip}`
+  );
+  await trackPattern(
+    sourcesKey(email),
+    ip,
+    DISTRIBUTED_THRESHOLD,
+    `Possible distributed attack: failed logins for ${email} from ${DISTRIBUTED_THRESHOLD} IPs`
+  );
+
+  if (accountLeft === 0) return lockedStatus("account", env.LOGIN_LOCKOUT_MINUTES * 60);
+  if (ipLeft === 0) return lockedStatus("ip", env.LOGIN_LOCKOUT_MINUTES * 60);
+  return { locked: false, remainingAttempts: Math.min(accountLeft, ipLeft) };
+};
+
+// A successful login forgives the account's failures (the IP's count keeps accumulating)
+const clearAccountFailures = async (email: string) => {
+  await redisClient.del([failKey("account", email), sourcesKey(email)]);
+};
+
+// Lift a lockout and forget recent failures (admin unlock)
+const unlockLogin = async (scope: LockScope, id: string) => {
+  const removed = await redisClient.del([lockKey(scope, id), failKey(scope, id)]);
+  return removed > 0;
+};
+
+export { LockScope, LockoutStatus, checkLoginAllowed, recordLoginFailure, clearAccountFailures, unlockLogin };
@@ -0,0 +1,537 @@
+import { RootNode, ElementNode, LexicalNode } from "../types";
+import { extractNodeText } from "./lexical";
+
+// Lexical text format bits that have a Markdown equivalent
+const BOLD = 1;
+const ITALIC = 2;
+const STRIKETHROUGH = 4;
+const CODE = 16;
+
+const PUNCTUATION = /[!-/:-@[-`{-~]/;
+const FENCE = /^(`{3,}|~{3,})\s*([\w#+.-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}((\*\s*){3,}|(-\s*){3,}|(_\s*){3,})$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+
+// ---- Node builders ----
+
+const textNode = (text: string, format = 0): LexicalNode => ({
+  type: "text",
+  text,
+  format,
+  detail: 0,
+  mode: "normal",
+  style: "",
+  version: 1,
+});
+
+const elementNode = (type: string, children: LexicalNode[], extra: Record<string, unknown> = {}): ElementNode => ({
+  type,
+  children,
+  direction: "ltr",
+  format: "",
+  indent: 0,
+  version: 1,
+  ...extra,
+});
+
+// ---- Markdown -> Lexical (inline) ----
+
+const isEscaped = (source: string, index: number) => {
+  let slashes = 0;
+  for (let i = index - 1; i >= 0 && source[i] === "\\"; i--) slashes++;
+  return slashes % 2 === 1;
+};
+
+// Find the closing emphasis marker, honouring escapes and intra-word underscores. As in CommonMark, a
+// closer cannot follow whitespace, and it takes the end of a longer run of the same character, so the
+// inner markers of "**bold *italic***" close the italic first.
+const findClosing = (source: string, marker: string, from: number) => {
+  const char = marker[0]!;
+  for (let i = source.indexOf(marker, from); i !== -1; i = source.indexOf(marker, i + 1)) {
+    if (isEscaped(source, i)) continue;
+
+    let end = i + marker.length;
+    if (char === "*" || char === "_") while (source[end] === char) end++;
+    const run = end - i;
+    const close = end - marker.length;
+    if (/\s/.test(source[i - 1] ?? "") || (char === "_" && /\w/.test(source[end] ?? ""))) {
+      i = end - 1;
+      continue;
+    }
+    if (marker.length === 1 && run === 2) {
+      i = end - 1; // Skip a nested ** pair
+      continue;
+    }
+    return close;
+  }
+  return -1;
+};
+
+// Parse [text](url "title") starting at an opening bracket
+const parseLinkAt = (source: string, start: number) => {
+  let depth = 0;
+  let close = -1;
+  for (let i = start; i < source.length; i++) {
+    if (isEscaped(source, i)) continue;
+    if (source[i] === "[") depth++;
+    if (source[i] === "]" && --depth === 0) {
+      close = i;
+      break;
+    }
+  }
+  if (close === -1 || source[close + 1] !== "(") return null;
+
+  let parens = 0;
+  let end = -1;
+  for (let i = close + 1; i < source.length; i++) {
+    if (isEscaped(source, i)) continue;
+    if (source[i] === "(") parens++;
+    if (source[i] === ")" && --parens === 0) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) return null;
+
+  const target = /^\s*<?([^\s>]*)>?(?:\s+"((?:[^"\\]|\\.)*)")?\s*$/.exec(source.slice(close + 2, end));
+  if (!target) return null;
+
+  return {
+    text: source.slice(start + 1, close),
+    url: target[1]!.replace(/\\([()])/g, "$1"),
+    title: target[2] !== undefined ? unescapeText(target[2]) : undefined,
+    end: end + 1,
+  };
+};
+
+const unescapeText = (text: string) => text.replace(/\\([!-/:-@[-`{-~])/g, "$1");
+
+const EMPHASIS: [string, number][] = [
+  ["***", BOLD | ITALIC],
+  ["___", BOLD | ITALIC],
+  ["**", BOLD],
+  ["__", BOLD],
+  ["~~", STRIKETHROUGH],
+  ["*", ITALIC],
+  ["_", ITALIC],
+];
+
+// Parse inline Markdown into Lexical text, link, image and linebreak nodes
+const parseInline = (source: string, format = 0): LexicalNode[] => {
+  const nodes: LexicalNode[] = [];
+  let buffer = "";
+
+  const pushText = (text: string, textFormat: number) => {
+    const last = nodes[nodes.length - 1];
+    if (last && last.type === "text" && last.format === textFormat) {
+      last.text += text;
+    } else {
+      nodes.push(textNode(text, textFormat));
+    }
+  };
+  const flush = () => {
+    if (buffer) pushText(buffer, format);
+    buffer = "";
+  };
+
+  let i = 0;
+  outer: while (i < source.length) {
+    const char = source[i]!;
+
+    if (char === "\\" && i + 1 < source.length && PUNCTUATION.test(source[i + 1]!)) {
+      buffer += source[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === "\n") {
+      flush();
+      nodes.push({ type: "linebreak", version: 1 });
+      i++;
+      continue;
+    }
+
+    if (char === "`") {
+      const run = /^`+/.exec(source.slice(i))![0];
+      const close = source.indexOf(run, i + run.length);
+      if (close !== -1 && source[close + run.length] !== "`") {
+        let code = source.slice(i + run.length, close);
+        if (run.length > 1 && code.startsWith(" ") && code.endsWith(" ") && code.trim()) code = code.slice(1, -1);
+        flush();
+        pushText(code, format | CODE);
+        i = close + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    if (char === "!" && source[i + 1] === "[") {
+      const image = parseLinkAt(source, i + 1);
+      if (image) {
+        flush();
+        nodes.push({
+          type: "image",
+          src: image.url,
+          altText: unescapeText(image.text),
+          ...(image.title ? { caption: image.title } : {}),
+          version: 1,
+        });
+        i = image.end;
+        continue;
+      }
+    }
+
+    if (char === "[") {
+      const link = parseLinkAt(source, i);
+      if (link) {
+        flush();
+        nodes.push(
+          elementNode("link", parseInline(link.text, format), {
+            url: link.url,
+            ...(link.title ? { title: link.title } : {}),
+          })
+        );
+        i = link.end;
+        continue;
+      }
+    }
+
+    for (const [marker, bit] of EMPHASIS) {
+      if (!source.startsWith(marker, i)) continue;
+      if (marker.startsWith("_") && /\w/.test(source[i - 1] ?? "")) continue;
+      if (/\s/.test(source[i + marker.length] ?? " ")) continue; // An opener must be followed by text
+
+      const close = findClosing(source, marker, i + marker.length);
+      if (close > i + marker.length) {
+        flush();
+        for (const node of parseInline(source.slice(i + marker.length, close), format | bit)) {
+          if (node.type === "text") pushText(node.text, node.format);
+          else nodes.push(node);
+        }
+        i = close + marker.length;
+        continue outer;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+// ---- Markdown -> Lexical (blocks) ----
+
+const isBlockStart = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+// Join paragraph lines, turning hard breaks (trailing backslash or two spaces) into newlines
+const joinLines = (lines: string[]) =>
+  lines
+    .map((line, index) => {
+      if (index === lines.length - 1) return line.trim();
+      if (/\\$/.test(line) && !isEscaped(line, line.length - 1)) return `${line.trim().slice(0, -1)}\n`;
+      if (/ {2,}$/.test(line)) return `${line.trim()}\n`;
+      return `${line.trim()} `;
+    })
+    .join("");
+
+interface ListItemDraft {
+  lines: string[];
+  checked?: boolean;
+  nested?: ElementNode;
+}
+
+// Parse a list (and any nested lists) starting at the given line
+const parseList = (lines: string[], start: number): { node: ElementNode; end: number } => {
+  const first = LIST_ITEM.exec(lines[start]!)!;
+  const indent = first[1]!.length;
+  const ordered = /\d/.test(first[2]!);
+  const listType = ordered ? "number" : first[3] !== undefined ? "check" : "bullet";
+  const items: ListItemDraft[] = [];
+
+  let i = start;
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    if (!line.trim()) {
+      const next = lines.slice(i + 1).find((candidate) => candidate.trim());
+      const nextItem = next !== undefined ? LIST_ITEM.exec(next) : null;
+      if (!nextItem || nextItem[1]!.length < indent) break;
+      i++;
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item && item[1]!.length === indent) {
+      if (/\d/.test(item[2]!) !== ordered) break;
+      items.push({
+        lines: [item[4]!],
+        ...(listType === "check" ? { checked: item[3] !== undefined && item[3] !== " " } : {}),
+      });
+      i++;
+    } else if (item && item[1]!.length > indent) {
+      const nested = parseList(lines, i);
+      items.push({ lines: [], nested: nested.node });
+      i = nested.end;
+    } else if (!item && items.length > 0 && /^\s/.test(line) && !isBlockStart(line.trim())) {
+      items[items.length - 1]!.lines.push(line); // Lazy continuation of the previous item
+      i++;
+    } else {
+      break;
+    }
+  }
+
+  const startNumber = ordered ? parseInt(first[2]!, 10) : 1;
+  let value = startNumber;
+  const children = items.map((draft) => {
+    if (draft.nested) return elementNode("listitem", [draft.nested], { value });
+    return elementNode("listitem", parseInline(joinLines(draft.lines)), {
+      value: value++,
+      ...(draft.checked !== undefined ? { checked: draft.checked } : {}),
+    });
+  });
+
+  return {
+    node: elementNode("list", children, { listType, start: startNumber, tag: ordered ? "ol" : "ul" }),
+    end: i,
+  };
+};
+
+// Convert Markdown (without front matter) into a Lexical document
+const markdownToLexical = (markdown: string): RootNode => {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const children: LexicalNode[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1]!;
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i]!.startsWith(marker[0]!.repeat(marker.length)) && !lines[i]!.trim().replace(/[`~]/g, ""))) {
+        body.push(lines[i]!);
+        i++;
+      }
+      i++; // Skip the closing fence
+
+      const codeChildren: LexicalNode[] = [];
+      body.forEach((codeLine, index) => {
+        if (index > 0) codeChildren.push({ type: "linebreak", version: 1 });
+        if (codeLine) codeChildren.push({ type: "code-highlight", text: codeLine, format: 0, version: 1 });
+      });
+      children.push(elementNode("code", codeChildren, fence[2] ? { language: fence[2] } : {}));
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      children.push(elementNode("heading", parseInline(heading[2]!), { tag: `h${heading[1]!.length}` }));
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      children.push({ type: "horizontalrule", version: 1 });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i]!)) {
+        quoted.push(QUOTE.exec(lines[i]!)![1]!);
+        i++;
+      }
+      // Each quoted line is one line of the quote
+      children.push(elementNode("quote", parseInline(quoted.map((q) => q.replace(/\\$|\s+$/, "")).join("\n"))));
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = parseList(lines, i);
+      children.push(list.node);
+      i = list.end;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i]!.trim() && (paragraph.length === 0 || !isBlockStart(lines[i]!))) {
+      paragraph.push(lines[i]!);
+      i++;
+    }
+    children.push(elementNode("paragraph", parseInline(joinLines(paragraph))));
+  }
+
+  // Top-level leaves such as horizontal rules are valid Lexical even though RootNode types children as elements
+  return { type: "root", children: children as ElementNode[], direction: "ltr", format: "", indent: 0, version: 1 };
+};
+
+// ---- Lexical -> Markdown ----
+
+const escapeText = (text: string) => text.replace(/[\\`*_[\]~]/g, "\\$&");
+
+// Escape characters that would start a block construct at the beginning of a line
+const escapeLineStart = (line: string) =>
+  line
+    .replace(/^(\s*)([#>+-])/, "$1\\$2")
+    .replace(/^(\s*\d+)([.)])(\s)/, "$1\\$2$3");
+
+const codeSpan = (text: string) => {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longest + 1);
+  return longest > 0 ? `${fence} ${text} ${fence}` : `${fence}${text}${fence}`;
+};
+
+const EMPHASIS_BITS = [BOLD, ITALIC, STRIKETHROUGH];
+
+// Format bits of an inline node. A link takes the emphasis its whole text shares, so emphasis around
+// it is written outside the link rather than split into runs before, inside and after it.
+const formatOf = (node: LexicalNode): number => {
+  if ((node.type === "text" || node.type === "code-highlight") && typeof node.format === "number") return node.format;
+  if ((node.type === "link" || node.type === "autolink") && Array.isArray(node.children) && node.children.length > 0) {
+    const shared = node.children.reduce((bits: number, child: LexicalNode) => bits & formatOf(child), ~0);
+    return shared & (BOLD | ITALIC | STRIKETHROUGH);
+  }
+  return 0;
+};
+
+const rawText = (node: LexicalNode) => (typeof node.text === "string" ? node.text : extractNodeText(node));
+
+// Serialize a single inline node, ignoring emphasis (handled by serializeRuns). active holds the
+// emphasis bits already opened around it, which a link's text must not repeat.
+const serializeLeaf = (node: LexicalNode, active: number): string => {
+  switch (node.type) {
+    case "text":
+    case "code-highlight":
+      return formatOf(node) & CODE ? codeSpan(node.text) : escapeText(node.text);
+    case "linebreak":
+      return "\\\n";
+    case "tab":
+      return "\t";
+    case "link":
+    case "autolink": {
+      const title = typeof node.title === "string" && node.title ? ` "${node.title.replace(/["\\]/g, "\\$&")}"` : "";
+      const url = String(node.url).replace(/[()]/g, "\\$&");
+      return `[${serializeInline(node.children ?? [], active)}](${url}${title})`;
+    }
+    case "image": {
+      const caption = typeof node.caption === "string" && node.caption ? ` "${node.caption.replace(/["\\]/g, "\\$&")}"` : "";
+      const src = String(node.src).replace(/[()]/g, "\\$&");
+      return `![${escapeText(String(node.altText ?? ""))}](${src}${caption})`;
+    }
+    default:
+      return Array.isArray(node.children) ? serializeInline(node.children, active) : escapeText(extractNodeText(node));
+  }
+};
+
+// Wrap runs of nodes sharing an emphasis bit in a single marker pair, outermost bit first
+const serializeRuns = (nodes: LexicalNode[], bits: number[], before: string, after: string, active: number): string => {
+  const [bit, ...rest] = bits;
+  if (bit === undefined) return nodes.map((node) => serializeLeaf(node, active)).join("");
+
+  const runs: LexicalNode[][] = [];
+  for (const node of nodes) {
+    const last = runs[runs.length - 1];
+    if (last && Boolean(formatOf(last[0]!) & bit) === Boolean(formatOf(node) & bit)) last.push(node);
+    else runs.push([node]);
+  }
+
+  return runs
+    .map((run, index) => {
+      const previous = index > 0 ? rawText(runs[index - 1]!.slice(-1)[0]!).slice(-1) : before;
+      const next = index < runs.length - 1 ? rawText(runs[index + 1]![0]!).slice(0, 1) : after;
+      if (!(formatOf(run[0]!) & bit)) return serializeRuns(run, rest, previous, next, active);
+
+      // Underscores do not open or close emphasis inside words, so fall back to asterisks there
+      const marker =
+        bit === BOLD ? "**" : bit === STRIKETHROUGH ? "~~" : /\w/.test(previous) || /\w/.test(next) ? "*" : "_";
+      const inner = serializeRuns(run, rest, marker, marker, active | bit);
+
+      // Markers next to whitespace neither open nor close emphasis, so keep edge spaces outside them
+      const [, lead, text, trail] = /^([ \t]*)([\s\S]*?)([ \t]*)$/.exec(inner)!;
+      return text ? `${lead}${marker}${text}${marker}${trail}` : inner;
+    })
+    .join("");
+};
+
+const serializeInline = (nodes: LexicalNode[], active = 0): string =>
+  serializeRuns(nodes, EMPHASIS_BITS.filter((bit) => !(active & bit)), "", "", active);
+
+const serializeList = (node: LexicalNode, indent: string): string[] => {
+  const lines: string[] = [];
+  let number = typeof node.start === "number" ? node.start : 1;
+  let previousMarkerWidth = 2;
+
+  for (const item of node.children ?? []) {
+    const children: LexicalNode[] = item.children ?? [];
+    const nested = children.filter((child) => child.type === "list");
+    const inline = children.filter((child) => child.type !== "list");
+
+    if (inline.length > 0 || nested.length === 0) {
+      let marker = node.listType === "number" ? `${number++}. ` : "- ";
+      if (node.listType === "check") marker += item.checked ? "[x] " : "[ ] ";
+      previousMarkerWidth = node.listType === "number" ? marker.length : 2;
+      const text = serializeInline(inline).split("\n");
+      lines.push(`${indent}${marker}${text[0]}`, ...text.slice(1).map((line) => `${indent}${" ".repeat(previousMarkerWidth)}${line}`));
+    }
+
+    for (const list of nested) {
+      lines.push(...serializeList(list, `${indent}${" ".repeat(previousMarkerWidth)}`));
+    }
+  }
+
+  return lines;
+};
+
+const serializeBlock = (node: LexicalNode): string => {
+  switch (node.type) {
+    case "heading": {
+      const level = Number(String(node.tag).slice(1)) || 2;
+      return `${"#".repeat(level)} ${serializeInline(node.children ?? [])}`;
+    }
+    case "quote":
+      return serializeInline(node.children ?? [])
+        .replace(/\\\n/g, "\n")
+        .split("\n")
+        .map((line) => `> ${line}`)
+        .join("\n");
+    case "list":
+      return serializeList(node, "").join("\n");
+    case "code": {
+      const text = extractNodeText(node);
+      const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+      const fence = "`".repeat(longest + 1);
+      return `${fence}${typeof node.language === "string" ? node.language : ""}\n${text}\n${fence}`;
+    }
+    case "horizontalrule":
+      return "---";
+    default:
+      return serializeInline(node.children ?? [])
+        .split("\n")
+        .map(escapeLineStart)
+        .join("\n");
+  }
+};
+
+// Convert a Lexical document into Markdown
+const lexicalToMarkdown = (root: RootNode): string =>
+  (root.children ?? [])
+    .map(serializeBlock)
+    .filter((block) => block.trim() !== "")
+    .join("\n\n") + "\n";
+
+export { markdownToLexical, lexicalToMarkdown, parseInline };
@@ -0,0 +1,72 @@
+import mongoose from "mongoose";
+import { BlogPost, IBlogPost, IMedia, Media, User } from "../models";
+import { collectImageSources } from "./lexical";
+import { logger } from "./logger";
+import { absoluteUrl, siteUrl } from "./siteUrls";
+
+// Every URL a media item is served from: the original and each variant
+const mediaUrls = (media: Pick<IMedia, "url" | "variants">) => [media.url, ...media.variants.map((v) => v.url)];
+
+// URLs as written in a post, plus their site-relative form when they point at this site
+const withRelativeForms = (urls: string[]) => {
+  const origin = siteUrl();
+  const forms = new Set<string>();
+  for (const url of urls) {
+    forms.add(url);
+    if (url.startsWith(`${origin}/`)) forms.add(url.slice(origin.length));
+  }
+  return [...forms];
+};
+
+// Image URLs a post uses in its content, cover and social image
+const blogImageUrls = (blog: IBlogPost) =>
+  withRelativeForms(
+    [...collectImageSources(blog.content), blog.metadata?.coverImage, blog.metadata?.ogImage].filter(
+      (url): url is string => !!url
+    )
+  );
+
+// Record which media library items a post uses, so they cannot be deleted from under it. The post
+// write already succeeded, so failures are logged rather than thrown.
+const syncMediaReferences = async (blog: IBlogPost) => {
+  try {
+    const urls = blogImageUrls(blog);
+    const media = urls.length
+      ? await Media.find({ $or: [{ url: { $in: urls } }, { "variants.url": { $in: urls } }] }).select("_id")
+      : [];
+    const mediaIds = media.map((item) => item._id as mongoose.Types.ObjectId);
+
+    blog.mediaIds = mediaIds;
+    await BlogPost.updateOne({ _id: blog._id }, { $set: { mediaIds } });
+  } catch (error) {
+    logger.error(`Failed to sync media references for blog ${blog._id}: ${error}`);
+  }
+};
+
+// Posts and users that use a media item, checked directly as well as through mediaIds so that
+// references written before tracking existed (or a failed sync) still block deletion
+const findMediaUsage = async (media: IMedia) => {
+  const urls = mediaUrls(media).flatMap((url) => [url, absoluteUrl(url)]);
+  const [blogs, users] = await Promise.all([
+    BlogPost.find({
+      $or: [
+        { mediaIds: media._id },
+        { "metadata.coverImage": { $in: urls } },
+        { "metadata.ogImage": { $in: urls } },
+        { "author.avatarUrl": { $in: urls } }, // Copied onto each post from the author's profile
+      ],
+    })
+      .select("title slug status")
+      .lean(),
+    User.find({ avatarUrl: { $in: urls } })
+      .select("username")
+      .lean(),
+  ]);
+
+  return {
+    blogs: blogs.map((blog) => ({ _id: blog._id, title: blog.title, slug: blog.slug, status: blog.status })),
+    users: users.map((user) => ({ _id: user._id, username: user.username })),
+  };
+};
+
+export { mediaUrls, syncMediaReferences, findMediaUsage };
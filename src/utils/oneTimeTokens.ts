@@ -0,0 +1,46 @@
+import crypto from "crypto";
+import { redisClient } from "../config/redis";
+
+type TokenPurpose = "invite" | "password-reset" | "2fa-challenge" | "2fa-enrollment";
+
+const TOKEN_PREFIX = "token:";
+
+// Only a hash of each token is stored, so a leaked Redis snapshot cannot be redeemed
+const tokenKey = (purpose: TokenPurpose, token: string) =>
+  `${TOKEN_PREFIX}${purpose}:${crypto.createHash("sha256").update(token).digest("hex")}`;
+
+// Issue a random single-use token carrying a JSON payload
+const issueToken = async (purpose: TokenPurpose, payload: object, ttlSeconds: number) => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  await redisClient.set(tokenKey(purpose, token), JSON.stringify(payload), { EX: ttlSeconds });
+  return token;
+};
+
+// Read a token's payload without redeeming it
+const peekToken = async <T>(purpose: TokenPurpose, token: string): Promise<T | null> => {
+  const raw = await redisClient.get(tokenKey(purpose, token));
+  return raw ? (JSON.parse(raw) as T) : null;
+};
+
+// Redeem a token; GETDEL guarantees only one concurrent caller gets the payload
+const consumeToken = async <T>(purpose: TokenPurpose, token: string): Promise<T | null> => {
+  const raw = await redisClient.getDel(tokenKey(purpose, token));
+  return raw ? (JSON.parse(raw) as T) : null;
+};
+
+// Count a failed attempt against a token and revoke it once maxFailures is reached. Returns attempts left.
+const recordTokenFailure = async (purpose: TokenPurpose, token: string, maxFailures: number) => {
+  const key = tokenKey(purpose, token);
+  const failuresKey = `${key}:failures`;
+  const [failures, ttl] = (await redisClient.multi().incr(failuresKey).pTTL(key).exec()) as unknown as [
+    number,
+    number,
+  ];
+  if (ttl > 0) await redisClient.pExpire(failuresKey, ttl); // Forgotten along with the token
+
+  if (failures < maxFailures) return maxFailures - failures;
+  await redisClient.del([key, failuresKey]);
+  return 0;
+};
+
+export { TokenPurpose, issueToken, peekToken, consumeToken, recordTokenFailure };
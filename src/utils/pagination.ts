@@ -0,0 +1,82 @@
+import mongoose from "mongoose";
+import CustomError from "./customError";
+
+// Supported sort orders for blog listings
+const SORT_OPTIONS = {
+  newest: { field: "publishedAt", direction: -1 },
+  oldest: { field: "publishedAt", direction: 1 },
+  updated: { field: "updatedAt", direction: -1 },
+  title: { field: "title", direction: 1 },
+} as const;
+
+type SortOption = keyof typeof SORT_OPTIONS;
+
+interface CursorPayload {
+  s: SortOption; // Sort order the cursor was issued for
+  v: string; // Value of the sort field on the last returned document
+  id: string; // _id of the last returned document (tie-breaker)
+}
+
+// Encode an opaque cursor from the last document of a page
+const encodeCursor = (sort: SortOption, doc: { _id: unknown; [key: string]: any }) => {
+  const { field } = SORT_OPTIONS[sort];
+  const payload: CursorPayload = { s: sort, v: String(doc[field] ?? ""), id: String(doc._id) };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+};
+
+// Decode a cursor, rejecting tampered values or cursors issued for another sort order
+const decodeCursor = (cursor: string, sort: SortOption): CursorPayload => {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new CustomError("Invalid cursor", { statusCode: 400 });
+  }
+
+  if (
+    !payload ||
+    typeof payload.v !== "string" ||
+    typeof payload.id !== "string" ||
+    !mongoose.isValidObjectId(payload.id)
+  ) {
+    throw new CustomError("Invalid cursor", { statusCode: 400 });
+  }
+  if (payload.s !== sort) {
+    throw new CustomError("Cursor does not match the requested sort order", { statusCode: 400 });
+  }
+
+  return payload;
+};
+
+// Mongo sort specification for a sort option, with _id as a stable tie-breaker
+const buildSort = (sort: SortOption): Record<string, 1 | -1> => {
+  const { field, direction } = SORT_OPTIONS[sort];
+  return { [field]: direction, _id: direction };
+};
+
+// Mongo filter selecting documents strictly after the cursor position. Documents without the sort
+// field (e.g. drafts have no publishedAt) sort below every value: last when descending, first when
+// ascending. Their cursors carry an empty value.
+const buildCursorFilter = (sort: SortOption, cursor?: string) => {
+  if (!cursor) return {};
+
+  const { v, id } = decodeCursor(cursor, sort);
+  const { field, direction } = SORT_OPTIONS[sort];
+  const op = direction === -1 ? "$lt" : "$gt";
+  const objectId = new mongoose.Types.ObjectId(id);
+
+  if (v === "") {
+    const missingAfter = { [field]: null, _id: { [op]: objectId } };
+    return direction === -1 ? missingAfter : { $or: [missingAfter, { [field]: { $ne: null } }] };
+  }
+
+  return {
+    $or: [
+      { [field]: { [op]: v } },
+      { [field]: v, _id: { [op]: objectId } },
+      ...(direction === -1 ? [{ [field]: null }] : []),
+    ],
+  };
+};
+
+export { SORT_OPTIONS, SortOption, encodeCursor, decodeCursor, buildSort, buildCursorFilter };
@@ -0,0 +1,89 @@
+import { IBlogPost } from "../models";
+import { AuthRequest, UserRole } from "../types";
+import CustomError from "./customError";
+
+type AuthUser = NonNullable<AuthRequest["user"]>;
+
+// Permissions without an ":any" suffix apply only to the user's own posts
+const PERMISSIONS = [
+  "blog:create",
+  "blog:edit", // Own drafts
+  "blog:edit:any",
+  "blog:delete", // Own drafts
+  "blog:delete:any",
+  "blog:publish", // Own drafts (publish, schedule, archive)
+  "blog:publish:any", // Anyone's posts, including unpublishing
+  "comment:moderate",
+  "taxonomy:manage",
+  "user:manage",
+  "cache:manage",
+  "search:manage",
+  "media:upload",
+  "media:manage", // Edit and delete anyone's uploads
+] as const;
+type Permission = (typeof PERMISSIONS)[number];
+
+const CONTRIBUTOR: Permission[] = ["blog:create", "blog:edit", "media:upload"];
+const AUTHOR: Permission[] = [...CONTRIBUTOR, "blog:delete", "blog:publish"];
+const EDITOR: Permission[] = [
+  ...AUTHOR,
+  "blog:edit:any",
+  "blog:delete:any",
+  "blog:publish:any",
+  "comment:moderate",
+  "media:manage",
+];
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  contributor: CONTRIBUTOR,
+  author: AUTHOR,
+  editor: EDITOR,
+  admin: PERMISSIONS,
+};
+
+const hasPermission = (user: AuthUser | undefined, permission: Permission) =>
+  !!user && (ROLE_PERMISSIONS[user.role] ?? []).includes(permission);
+
+const isOwnDraft = (user: AuthUser | undefined, blog: IBlogPost) =>
+  !!user && blog.author.id === user.id && blog.status === "draft";
+
+const forbidden = (message: string) => new CustomError(message, { statusCode: 403 });
+
+// Editors edit anything; everyone else only their own drafts
+const assertCanEditBlog = (user: AuthUser | undefined, blog: IBlogPost) => {
+  if (hasPermission(user, "blog:edit:any")) return;
+  if (hasPermission(user, "blog:edit") && isOwnDraft(user, blog)) return;
+  throw forbidden("You can only edit your own drafts");
+};
+
+const assertCanDeleteBlog = (user: AuthUser | undefined, blog: IBlogPost) => {
+  if (hasPermission(user, "blog:delete:any")) return;
+  if (hasPermission(user, "blog:delete") && isOwnDraft(user, blog)) return;
+  throw forbidden("You can only delete your own drafts");
+};
+
+// Moving a post out of draft (publish, schedule, archive)
+const assertCanPublishBlog = (user: AuthUser | undefined, blog: IBlogPost) => {
+  if (hasPermission(user, "blog:publish:any")) return;
+  if (hasPermission(user, "blog:publish") && isOwnDraft(user, blog)) return;
+  throw forbidden("You do not have permission to publish this post");
+};
+
+// Authors may open their own unpublished posts (and their history and previews), editors everyone's
+const canViewUnpublishedBlog = (user: AuthUser | undefined, blog: IBlogPost) =>
+  hasPermission(user, "blog:edit:any") || (hasPermission(user, "blog:edit") && blog.author.id === user!.id);
+
+// Revision history is visible to the post's author and to editors
+const assertCanViewBlogHistory = (user: AuthUser | undefined, blog: IBlogPost) => {
+  if (!canViewUnpublishedBlog(user, blog)) throw forbidden("You do not have access to this post");
+};
+
+export {
+  Permission,
+  hasPermission,
+  assertCanEditBlog,
+  assertCanDeleteBlog,
+  assertCanPublishBlog,
+  canViewUnpublishedBlog,
+  assertCanViewBlogHistory,
+};
@@ -0,0 +1,111 @@
+import crypto from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { redisClient } from "../config/redis";
+
+// Each preview link is a hash of its details; a set per post lists them for management
+const previewKey = (previewId: string) => `preview:${previewId}`;
+const blogPreviewsKey = (blogId: string) => `blog:previews:${blogId}`;
+
+interface PreviewInfo {
+  id: string;
+  blogId: string;
+  version?: number; // Revision shown instead of the current content
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const hashSecret = (secret: string) => crypto.createHash("sha256").update(secret).digest("hex");
+
+// Preview tokens are "<previewId>.<secret>"; only the secret's hash is stored
+const parsePreviewToken = (token: string) => {
+  const [previewId, secret, ...rest] = token.split(".");
+  return previewId && secret && rest.length === 0 ? { previewId, secret } : null;
+};
+
+const toPreviewInfo = (id: string, fields: Record<string, string>): PreviewInfo => ({
+  id,
+  blogId: fields.blogId ?? "",
+  ...(fields.version ? { version: Number(fields.version) } : {}),
+  createdBy: fields.createdBy ?? "",
+  createdAt: fields.createdAt ?? "",
+  expiresAt: fields.expiresAt ?? "",
+});
+
+// Mint a preview link for a post; Redis expires it with the link
+const createPreviewToken = async (blogId: string, createdBy: string, ttlSeconds: number, version?: number) => {
+  const id = uuidv4();
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const fields = {
+    blogId,
+    version: version !== undefined ? String(version) : "",
+    createdBy,
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+  };
+
+  await redisClient
+    .multi()
+    .hSet(previewKey(id), { ...fields, tokenHash: hashSecret(secret) })
+    .expire(previewKey(id), ttlSeconds)
+    .sAdd(blogPreviewsKey(blogId), id)
+    .exec();
+
+  return { token: `${id}.${secret}`, preview: toPreviewInfo(id, fields) };
+};
+
+// The preview a token grants, or null when it is malformed, expired or revoked
+const verifyPreviewToken = async (token: string): Promise<PreviewInfo | null> => {
+  const parsed = parsePreviewToken(token);
+  if (!parsed) return null;
+
+  const fields = await redisClient.hGetAll(previewKey(parsed.previewId));
+  if (!fields.tokenHash) return null;
+
+  const expected = Buffer.from(fields.tokenHash, "hex");
+  const actual = Buffer.from(hashSecret(parsed.secret), "hex");
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  return toPreviewInfo(parsed.previewId, fields);
+};
+
+// Live preview links of a post, newest first; expired ids are pruned on the way
+const listPreviewTokens = async (blogId: string): Promise<PreviewInfo[]> => {
+  const ids = await redisClient.sMembers(blogPreviewsKey(blogId));
+  const previews: PreviewInfo[] = [];
+
+  for (const id of ids) {
+    const fields = await redisClient.hGetAll(previewKey(id));
+    if (!fields.blogId) {
+      await redisClient.sRem(blogPreviewsKey(blogId), id);
+      continue;
+    }
+    previews.push(toPreviewInfo(id, fields));
+  }
+
+  return previews.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Revoke one preview link of a post; false when it does not exist (or belongs to another post)
+const revokePreviewToken = async (blogId: string, previewId: string) => {
+  const removed = await redisClient.sRem(blogPreviewsKey(blogId), previewId);
+  if (removed === 0) return false;
+  await redisClient.del(previewKey(previewId));
+  return true;
+};
+
+// Revoke every preview link of a post (e.g. when it is deleted)
+const revokeAllPreviewTokens = async (blogId: string) => {
+  const ids = await redisClient.sMembers(blogPreviewsKey(blogId));
+  await redisClient.del([blogPreviewsKey(blogId), ...ids.map(previewKey)]);
+  return ids.length;
+};
+
+export {
+  PreviewInfo,
+  createPreviewToken,
+  verifyPreviewToken,
+  listPreviewTokens,
+  revokePreviewToken,
+  revokeAllPreviewTokens,
+};
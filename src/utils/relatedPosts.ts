@@ -0,0 +1,108 @@
+import mongoose from "mongoose";
+import { BlogPost, Category, IBlogPost } from "../models";
+import { extractDocumentText } from "./lexical";
+import { extractKeywords } from "./keywords";
+
+// Relative weight of each signal in the related-post score
+const WEIGHTS = {
+  tag: 3, // Per shared tag
+  category: 2, // Per shared category
+  parentCategory: 1, // Per category shared only through a parent (siblings, parent and child)
+  terms: 6, // Scaled by the overlap (0-1) of the posts' most frequent terms
+  recency: 1, // Scaled by age, halving every RECENCY_HALF_LIFE_DAYS
+};
+
+const RECENCY_HALF_LIFE_DAYS = 180;
+const TAXONOMY_CANDIDATES = 200; // Most recent posts sharing a tag or category that are scored
+const RECENT_CANDIDATES = 50; // Most recent posts scored regardless of taxonomy, so text overlap can surface them
+const TOP_TERMS = 25;
+
+type Candidate = Pick<IBlogPost, "tags" | "categories" | "publishedAt" | "searchText"> & {
+  _id: mongoose.Types.ObjectId;
+};
+
+const topTerms = (text: string) => new Set(extractKeywords(text, TOP_TERMS));
+
+// Jaccard similarity of two term sets
+const overlap = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const term of a) if (b.has(term)) shared++;
+  return shared / (a.size + b.size - shared);
+};
+
+// Categories plus their parents, for matching posts filed under neighbouring categories
+const withParents = (ids: string[], parents: Map<string, string>) => {
+  const expanded = new Set(ids);
+  for (const id of ids) {
+    const parent = parents.get(id);
+    if (parent) expanded.add(parent);
+  }
+  return expanded;
+};
+
+const recencyFactor = (publishedAt: string | undefined) => {
+  if (!publishedAt) return 0;
+  const ageDays = Math.max(0, Date.now() - Date.parse(publishedAt)) / 86_400_000;
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+};
+
+// Ids of the published posts most related to a post, best first
+const findRelatedBlogIds = async (blog: IBlogPost, limit: number) => {
+  const tagIds = blog.tags.map(String);
+  const categoryIds = blog.categories.map(String);
+
+  const categories = await Category.find({ parentId: { $exists: true } })
+    .select("parentId")
+    .lean();
+  const parents = new Map(categories.map((category) => [String(category._id), String(category.parentId)]));
+  const sourceCategories = withParents(categoryIds, parents);
+  // Children of the post's categories count as neighbours too
+  for (const [child, parent] of parents) if (categoryIds.includes(parent)) sourceCategories.add(child);
+
+  const base = { _id: { $ne: blog._id }, status: "published" };
+  const select = "tags categories publishedAt +searchText";
+  const [taxonomyMatches, recent] = await Promise.all([
+    BlogPost.find({ ...base, $or: [{ tags: { $in: blog.tags } }, { categories: { $in: [...sourceCategories] } }] })
+      .select(select)
+      .sort({ publishedAt: -1 })
+      .limit(TAXONOMY_CANDIDATES)
+      .lean<Candidate[]>(),
+    BlogPost.find(base).select(select).sort({ publishedAt: -1 }).limit(RECENT_CANDIDATES).lean<Candidate[]>(),
+  ]);
+
+  const candidates = new Map<string, Candidate>();
+  for (const candidate of [...taxonomyMatches, ...recent]) candidates.set(String(candidate._id), candidate);
+
+  const sourceTerms = topTerms(blog.searchText ?? extractDocumentText(blog.content));
+
+  const scored = [...candidates.values()].map((candidate) => {
+    const sharedTags = candidate.tags.filter((id) => tagIds.includes(String(id))).length;
+
+    const candidateCategories = candidate.categories.map(String);
+    const sharedCategories = candidateCategories.filter((id) => categoryIds.includes(id)).length;
+    // Only categories not shared directly can add a neighbour bonus, or sharing a child category
+    // would also score its parent
+    const unsharedCategories = candidateCategories.filter((id) => !categoryIds.includes(id));
+    let parentOnly = 0;
+    for (const id of withParents(unsharedCategories, parents)) {
+      if (sourceCategories.has(id) && !categoryIds.includes(id)) parentOnly++;
+    }
+
+    const score =
+      sharedTags * WEIGHTS.tag +
+      sharedCategories * WEIGHTS.category +
+      parentOnly * WEIGHTS.parentCategory +
+      overlap(sourceTerms, topTerms(candidate.searchText ?? "")) * WEIGHTS.terms +
+      recencyFactor(candidate.publishedAt) * WEIGHTS.recency;
+
+    return { id: candidate._id, score };
+  });
+
+  return scored
+    .filter(({ score }) => score > WEIGHTS.recency) // Recency alone does not make a post related
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+export { findRelatedBlogIds };
@@ -0,0 +1,108 @@
+import { redisClient } from "../config/redis";
+import env from "../config/env";
+import { logger } from "./logger";
+
+type CacheNamespace = "blogs" | "categories" | "tags";
+
+interface CachedResponse {
+  status: number;
+  headers: Record<string, string>; // Those in REPLAYED_HEADERS that the handler set
+  body: string;
+}
+
+const KEY_PREFIX = "cache:resp:";
+const TAG_PREFIX = "cache:tag:";
+const LOCK_PREFIX = "cache:lock:";
+// Tag sets are shared by responses with different TTLs, so each outlives the longest-lived response it
+// may index; expiring with a shorter one would leave live responses that invalidation cannot find
+const TAG_TTL_SECONDS = Math.max(env.CACHE_TTL_LIST_SECONDS, env.CACHE_TTL_DETAIL_SECONDS) * 2;
+
+// Headers describing the response itself, stored with it and sent again on a hit
+const REPLAYED_HEADERS = ["Content-Type", "Content-Disposition", "Content-Language", "X-Robots-Tag"];
+
+// Every cached list in a namespace carries this tag, so any write can purge the lists. Detail
+// responses do not; they are purged through their entity tags (blog:<id>, tag:<id>, category:<id>).
+const listTag = (namespace: CacheNamespace) => `${namespace}:list`;
+
+const getCachedResponse = async (key: string): Promise<CachedResponse | null> => {
+  const raw = await redisClient.get(KEY_PREFIX + key);
+  return raw ? (JSON.parse(raw) as CachedResponse) : null;
+};
+
+// Store a response and index it under each tag so it can be purged precisely
+const setCachedResponse = async (key: string, response: CachedResponse, tags: string[], ttl: number) => {
+  const multi = redisClient.multi().set(KEY_PREFIX + key, JSON.stringify(response), { EX: ttl });
+  for (const tag of tags) {
+    multi.sAdd(TAG_PREFIX + tag, key).expire(TAG_PREFIX + tag, Math.max(TAG_TTL_SECONDS, ttl * 2));
+  }
+  await multi.exec();
+};
+
+// Try to become the single instance rebuilding a key (stampede protection)
+const acquireRebuildLock = async (key: string, ttlMs: number) =>
+  (await redisClient.set(LOCK_PREFIX + key, "1", { NX: true, PX: ttlMs })) === "OK";
+
+const releaseRebuildLock = async (key: string) => {
+  await redisClient.del(LOCK_PREFIX + key);
+};
+
+// Purge every cached response indexed under any of the tags
+const invalidateCache = async (tags: string[]) => {
+  try {
+    for (const tag of tags) {
+      const keys = await redisClient.sMembers(TAG_PREFIX + tag);
+      if (keys.length > 0) await redisClient.del(keys.map((key) => KEY_PREFIX + key));
+      await redisClient.del(TAG_PREFIX + tag);
+    }
+  } catch (error) {
+    logger.error(`Failed to invalidate cache tags ${tags.join(", ")}: ${error}`);
+  }
+};
+
+// Remove every cached response, tag index and lock
+const flushCache = async () => {
+  let removed = 0;
+  for await (const keys of redisClient.scanIterator({ MATCH: "cache:*", COUNT: 500 })) {
+    if (keys.length > 0) removed += await redisClient.del(keys);
+  }
+  return removed;
+};
+
+// Derive entity tags from a JSON response body
+const collectResponseTags = (namespace: CacheNamespace, body: any): string[] => {
+  const tags = new Set<string>();
+  const data = body?.data;
+  const items: any[] = Array.isArray(data) ? data : data ? [data] : [];
+  const idOf = (ref: any) => (ref && typeof ref === "object" ? ref._id : ref);
+
+  for (const item of items) {
+    if (!item || typeof item !== "object") continue;
+    if (namespace === "blogs") {
+      if (item._id) tags.add(`blog:${item._id}`);
+      for (const tag of item.tags ?? []) if (idOf(tag)) tags.add(`tag:${idOf(tag)}`);
+      for (const category of item.categories ?? []) if (idOf(category)) tags.add(`category:${idOf(category)}`);
+    } else if (namespace === "categories") {
+      if (item._id) tags.add(`category:${item._id}`);
+      if (idOf(item.parentId)) tags.add(`category:${idOf(item.parentId)}`);
+      for (const ancestor of item.path ?? []) if (idOf(ancestor)) tags.add(`category:${idOf(ancestor)}`); // Breadcrumbs
+    } else if (item._id) {
+      tags.add(`tag:${item._id}`);
+    }
+  }
+
+  return [...tags];
+};
+
+export {
+  CacheNamespace,
+  CachedResponse,
+  REPLAYED_HEADERS,
+  listTag,
+  getCachedResponse,
+  setCachedResponse,
+  acquireRebuildLock,
+  releaseRebuildLock,
+  invalidateCache,
+  flushCache,
+  collectResponseTags,
+};
@@ -0,0 +1,70 @@
+import mongoose from "mongoose";
+import { BlogRevision, IBlogPost, IRevisionEditor } from "../models";
+import { AuthRequest } from "../types";
+import CustomError from "./customError";
+
+// Build the revision editor from the authenticated user
+const editorFromRequest = (req: AuthRequest): IRevisionEditor => {
+  if (!req.user) {
+    throw new CustomError("Not authorized", { statusCode: 401 });
+  }
+  return { id: req.user.id, username: req.user.username };
+};
+
+const MAX_VERSION_ATTEMPTS = 5;
+
+// A revision insert that lost the race for its version number, as opposed to e.g. a taken slug
+const isVersionConflict = (error: unknown) => {
+  const { code, keyPattern } = (error ?? {}) as { code?: number; keyPattern?: Record<string, unknown> };
+  return code === 11000 && keyPattern?.version !== undefined;
+};
+
+// Write an immutable snapshot of the blog's current state as the next revision
+const recordRevision = async (
+  blog: IBlogPost,
+  editor: IRevisionEditor,
+  restoredFrom: mongoose.Types.ObjectId | undefined,
+  session: mongoose.ClientSession
+) => {
+  const latest = await BlogRevision.findOne({ blogId: blog._id })
+    .sort({ version: -1 })
+    .select("version")
+    .session(session);
+  const [revision] = await BlogRevision.create(
+    [
+      {
+        blogId: blog._id,
+        version: (latest?.version ?? 0) + 1,
+        title: blog.title,
+        excerpt: blog.excerpt,
+        content: blog.content,
+        metadata: blog.metadata,
+        editor,
+        restoredFrom,
+        createdAt: new Date().toISOString(),
+      },
+    ],
+    { session }
+  );
+  return revision!;
+};
+
+// Save the blog and record its revision in one transaction, so every save has a revision and a failed
+// revision leaves the post unchanged. Concurrent saves can pick the same next version; the unique
+// {blogId, version} index rejects the loser, whose whole transaction is retried.
+const saveWithRevision = async (blog: IBlogPost, editor: IRevisionEditor, restoredFrom?: mongoose.Types.ObjectId) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      let revision: Awaited<ReturnType<typeof recordRevision>> | undefined;
+      await mongoose.connection.transaction(async (session) => {
+        await blog.save({ session });
+        revision = await recordRevision(blog, editor, restoredFrom, session);
+      });
+      return revision!;
+    } catch (error) {
+      if (attempt >= MAX_VERSION_ATTEMPTS || !isVersionConflict(error)) throw error;
+    }
+  }
+};
+
+export { saveWithRevision, editorFromRequest };
@@ -0,0 +1,18 @@
+import { Setting } from "../models";
+
+// Read a runtime setting, falling back to a default when it was never set
+const getSetting = async <T>(key: string, fallback: T): Promise<T> => {
+  const setting = await Setting.findOne({ key }).lean();
+  return setting ? (setting.value as T) : fallback;
+};
+
+const setSetting = async <T>(key: string, value: T) => {
+  await Setting.findOneAndUpdate(
+    { key },
+    { $set: { value, updatedAt: new Date().toISOString() } },
+    { upsert: true }
+  );
+  return value;
+};
+
+export { getSetting, setSetting };
@@ -0,0 +1,18 @@
+import env from "../config/env";
+
+const siteUrl = (path = "") => `${env.SITE_URL.replace(/\/+$/, "")}${path}`;
+
+// Public URLs of site pages, shared by feeds and sitemaps
+const postUrl = (slug: string) => siteUrl(`/blog/${encodeURIComponent(slug)}`);
+const categoryUrl = (slug: string) => siteUrl(`/categories/${encodeURIComponent(slug)}`);
+const tagUrl = (slug: string) => siteUrl(`/tags/${encodeURIComponent(slug)}`);
+const authorUrl = (username: string) => siteUrl(`/authors/${encodeURIComponent(username)}`);
+
+// Permanent id of a post for feeds (RFC 4151 tag URI), unlike its URL unaffected by slug changes
+const postTagUri = (id: string, createdAt: string) =>
+  `tag:${new URL(env.SITE_URL).hostname},${new Date(createdAt).toISOString().slice(0, 10)}:post:${id}`;
+
+// Resolve a possibly relative asset URL (e.g. a cover image) against the site
+const absoluteUrl = (url: string) => (/^https?:\/\//i.test(url) ? url : siteUrl(url.startsWith("/") ? url : `/${url}`));
+
+export { siteUrl, postUrl, categoryUrl, tagUrl, authorUrl, postTagUri, absoluteUrl };
@@ -0,0 +1,83 @@
+import { redisClient } from "../config/redis";
+import { logger } from "./logger";
+import { escapeXml } from "./feeds";
+
+const SITEMAP_MAX_URLS = 50000; // Protocol limit per sitemap file
+const SITEMAP_CACHE_TTL = 60 * 60 * 24; // 1 day in seconds
+const VERSION_KEY = "sitemap:version"; // Bumped on every content change so stale entries are never read
+
+interface SitemapUrl {
+  loc: string;
+  lastmod?: string;
+  images?: string[];
+}
+
+interface SitemapRef {
+  loc: string;
+  lastmod?: string;
+}
+
+const formatLastmod = (value: string) => new Date(value).toISOString();
+
+const buildUrlSet = (urls: SitemapUrl[]) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+    ...urls.map((url) =>
+      [
+        "  <url>",
+        `    <loc>${escapeXml(url.loc)}</loc>`,
+        ...(url.lastmod ? [`    <lastmod>${formatLastmod(url.lastmod)}</lastmod>`] : []),
+        ...(url.images ?? []).map((image) => `    <image:image><image:loc>${escapeXml(image)}</image:loc></image:image>`),
+        "  </url>",
+      ].join("\n")
+    ),
+    "</urlset>",
+  ].join("\n");
+
+const buildSitemapIndex = (sitemaps: SitemapRef[]) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps.map((sitemap) =>
+      [
+        "  <sitemap>",
+        `    <loc>${escapeXml(sitemap.loc)}</loc>`,
+        ...(sitemap.lastmod ? [`    <lastmod>${formatLastmod(sitemap.lastmod)}</lastmod>`] : []),
+        "  </sitemap>",
+      ].join("\n")
+    ),
+    "</sitemapindex>",
+  ].join("\n");
+
+// Return the cached document for a sitemap name, building and caching it on a miss
+const getCachedSitemap = async (name: string, build: () => Promise<string | null>) => {
+  const version = (await redisClient.get(VERSION_KEY)) ?? "0";
+  const key = `sitemap:v${version}:${name}`;
+
+  const cached = await redisClient.get(key);
+  if (cached !== null) return cached;
+
+  const xml = await build();
+  if (xml !== null) await redisClient.set(key, xml, { EX: SITEMAP_CACHE_TTL });
+  return xml;
+};
+
+// Invalidate every cached sitemap; old versions simply expire
+const invalidateSitemaps = async () => {
+  try {
+    await redisClient.incr(VERSION_KEY);
+  } catch (error) {
+    logger.error(`Failed to invalidate sitemaps: ${error}`);
+  }
+};
+
+export {
+  SITEMAP_MAX_URLS,
+  buildUrlSet,
+  buildSitemapIndex,
+  getCachedSitemap,
+  invalidateSitemaps,
+  SitemapUrl,
+  SitemapRef,
+};
@@ -0,0 +1,79 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import slugify from "slugify";
+import { z } from "zod";
+
+// Fields shared by every entity addressable by slug
+interface SlugFields {
+  _id?: unknown;
+  slug: string;
+  slugPinned: boolean; // Custom slug that no longer follows the title or name
+  previousSlugs: string[]; // Old slugs, answered with a redirect to the current one
+}
+
+const toSlug = (text: string) => slugify(text, { lower: true, strict: true });
+
+// A custom slug: lowercase letters and digits in hyphen-separated words
+const customSlugSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .max(200)
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: "Slug may only contain letters, digits and single hyphens" });
+
+// Move a document to a new slug, keeping the old one in its history
+const changeSlug = (doc: SlugFields, slug: string) => {
+  if (slug === doc.slug) return;
+  doc.previousSlugs = [...new Set([...doc.previousSlugs, doc.slug])].filter((previous) => previous !== slug);
+  doc.slug = slug;
+};
+
+// Apply an update's slug rules and return whether the slug changed. A custom slug pins it; null unpins it
+// so it follows the title again; otherwise an unpinned slug is regenerated from the (possibly new) title.
+const applySlugUpdate = (doc: SlugFields, title: string, custom: string | null | undefined) => {
+  const before = doc.slug;
+  if (typeof custom === "string") {
+    doc.slugPinned = true;
+    changeSlug(doc, custom);
+  } else if (custom === null || !doc.slugPinned) {
+    doc.slugPinned = false;
+    changeSlug(doc, toSlug(title));
+  }
+  return doc.slug !== before;
+};
+
+// Whether a slug is in use, currently or historically, by a document other than excludeId
+const isSlugTaken = async (model: mongoose.Model<any>, slug: string, excludeId?: unknown) =>
+  !!(await model.exists({
+    $or: [{ slug }, { previousSlugs: slug }],
+    ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+  }));
+
+// Find the document that used to answer to a slug
+const findByPreviousSlug = (model: mongoose.Model<any>, slug: string, filter: Record<string, unknown> = {}) =>
+  model.findOne({ previousSlugs: slug, ...filter }).select("slug");
+
+// Point a request for an old slug at the current one: 301 by default, or the target as a 200 payload
+// with ?redirect=false for API clients that resolve redirects themselves
+const sendSlugRedirect = (req: Request, res: Response, slug: string) => {
+  const query = req.originalUrl.split("?")[1];
+  const location = `${req.baseUrl}${req.path.replace(/^\/[^/]+/, `/${slug}`)}${query ? `?${query}` : ""}`;
+  const body = { success: true, redirectTo: { slug, location } };
+
+  if (req.query.redirect === "false") {
+    res.status(200).json(body);
+    return;
+  }
+  res.status(301).location(location).json(body);
+};
+
+export {
+  SlugFields,
+  toSlug,
+  customSlugSchema,
+  changeSlug,
+  applySlugUpdate,
+  isSlugTaken,
+  findByPreviousSlug,
+  sendSlugRedirect,
+};
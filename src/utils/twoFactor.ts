@@ -0,0 +1,60 @@
+import crypto from "crypto";
+import { IUser, UserRole } from "../models";
+import { verifyTotp } from "./totp";
+import { getSetting, setSetting } from "./settings";
+
+const RECOVERY_CODE_COUNT = 10;
+const REQUIRED_ROLES_SETTING = "security.twoFactorRequiredRoles";
+
+// Recovery codes are compared case- and separator-insensitively
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash("sha256").update(code.toLowerCase().replace(/[^a-z0-9]/g, "")).digest("hex");
+
+// Fresh set of one-time recovery codes; only the hashes are stored
+const generateRecoveryCodes = () => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+// Verify a TOTP code or consume a recovery code. Mutates the user's 2FA state; the caller saves it.
+// Expects twoFactor.secret and twoFactor.recoveryCodes to be selected.
+const verifySecondFactor = (user: IUser, input: { code?: string | undefined; recoveryCode?: string | undefined }) => {
+  const twoFactor = user.twoFactor;
+  if (!twoFactor?.enabled || !twoFactor.secret) return false;
+
+  if (input.code) {
+    const step = verifyTotp(twoFactor.secret, input.code, twoFactor.lastUsedStep ?? -1);
+    if (step === null) return false;
+    twoFactor.lastUsedStep = step;
+    return true;
+  }
+
+  if (input.recoveryCode) {
+    const hash = hashRecoveryCode(input.recoveryCode);
+    const index = twoFactor.recoveryCodes.indexOf(hash);
+    if (index === -1) return false;
+    twoFactor.recoveryCodes.splice(index, 1);
+    user.markModified("twoFactor.recoveryCodes");
+    return true;
+  }
+
+  return false;
+};
+
+// Roles that must enroll in 2FA before they can log in (admin-configurable)
+const getTwoFactorRequiredRoles = () => getSetting<UserRole[]>(REQUIRED_ROLES_SETTING, []);
+
+const setTwoFactorRequiredRoles = (roles: UserRole[]) => setSetting(REQUIRED_ROLES_SETTING, [...new Set(roles)]);
+
+const isTwoFactorRequired = async (role: UserRole) => (await getTwoFactorRequiredRoles()).includes(role);
+
+export {
+  generateRecoveryCodes,
+  verifySecondFactor,
+  getTwoFactorRequiredRoles,
+  setTwoFactorRequiredRoles,
+  isTwoFactorRequired,
+};
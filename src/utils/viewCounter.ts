@@ -0,0 +1,171 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { v4 as uuidv4 } from "uuid";
+import { redisClient } from "../config/redis";
+import env from "../config/env";
+import { BlogPost, BlogView } from "../models";
+
+// Views are counted in Redis and flushed to MongoDB in batches. Fields of the pending hash are
+// "<YYYY-MM-DD>|<post id>", so a view lands in the day it happened whenever it is flushed.
+const PENDING_KEY = "views:pending";
+const BATCH_PREFIX = "views:flushing:";
+// A batch claimed by one flush. The id stays with the batch when a retry reclaims it, so writes it
+// already made are recognised; the claim time tells a batch in progress from one left by a failure.
+const flushingKey = (batchId: string) => `${BATCH_PREFIX}${batchId}:${Date.now()}`;
+const seenKey = (visitor: string) => `views:seen:${visitor}`;
+const targetKey = (target: string) => `views:target:${target}`;
+
+const DAY_MS = 86_400_000;
+const STALE_BATCH_MS = 5 * 60_000; // Far longer than a flush takes; older batches were abandoned
+const TARGET_TTL_SECONDS = 300;
+const RECENT_FLUSHES = 50; // Batch ids kept on each bucket to recognise a retried batch
+
+// UTC calendar day, as used for view buckets
+const utcDay = (date = new Date()) => date.toISOString().slice(0, 10);
+
+// The id of the published post an id or slug refers to, cached briefly so counting does not query
+// MongoDB on every request. Only current slugs match, so views of a redirecting old slug (answered 200
+// with ?redirect=false) are not counted.
+const resolveTarget = async (target: string) => {
+  const cached = await redisClient.get(targetKey(target));
+  if (cached) return cached;
+
+  const post = await BlogPost.findOne({
+    status: "published",
+    $or: [...(mongoose.isValidObjectId(target) ? [{ _id: target }] : []), { slug: target }],
+  })
+    .select("_id")
+    .lean();
+  if (!post) return null;
+
+  const blogId = String(post._id);
+  await redisClient.set(targetKey(target), blogId, { EX: TARGET_TTL_SECONDS });
+  return blogId;
+};
+
+// Count a view unless the same visitor viewed the same post within VIEW_DEDUP_WINDOW_MINUTES, whether
+// by id or by slug. Visitors are an HMAC of the day, IP and user agent: nothing identifying is stored,
+// and the key expires with the window.
+const recordView = async (target: string, ip: string, userAgent: string) => {
+  const blogId = await resolveTarget(target);
+  if (!blogId) return false;
+
+  const day = utcDay();
+  const visitor = crypto
+    .createHmac("sha256", env.JWT_SECRET)
+    .update([day, ip, userAgent, blogId].join("|"))
+    .digest("base64url");
+
+  const first = await redisClient.set(seenKey(visitor), "1", { NX: true, EX: env.VIEW_DEDUP_WINDOW_MINUTES * 60 });
+  if (first !== "OK") return false;
+
+  await redisClient.hIncrBy(PENDING_KEY, `${day}|${blogId}`, 1);
+  return true;
+};
+
+// Add a batch of counts to the daily buckets and post totals. Every write can be repeated: a bucket
+// records the batches applied to it, and totals are recomputed from the buckets, so retrying a batch
+// that failed part way does not count anything twice.
+const writeViewBatch = async (batchId: string, batch: Record<string, string>) => {
+  const entries = Object.entries(batch).map(([field, count]) => {
+    const separator = field.indexOf("|");
+    return { date: field.slice(0, separator), target: field.slice(separator + 1), views: Number(count) };
+  });
+  const targets = new Set(entries.map((entry) => entry.target));
+
+  const posts = await BlogPost.find({
+    status: "published",
+    _id: { $in: [...targets].filter((target) => mongoose.isValidObjectId(target)) },
+  })
+    .select("_id")
+    .lean();
+  const published = new Map(posts.map((post) => [String(post._id), post._id as mongoose.Types.ObjectId]));
+
+  const buckets = new Map<string, { blogId: mongoose.Types.ObjectId; date: string; views: number }>();
+  for (const { date, target, views } of entries) {
+    const blogId = published.get(target);
+    if (!blogId || !(views > 0)) continue;
+    const bucket = buckets.get(`${blogId}|${date}`) ?? { blogId, date, views: 0 };
+    bucket.views += views;
+    buckets.set(`${blogId}|${date}`, bucket);
+  }
+  if (buckets.size === 0) return 0;
+
+  // Create missing buckets first, so the counting update below needs no upsert and skips buckets
+  // that already hold this batch instead of colliding with them
+  await BlogView.bulkWrite(
+    [...buckets.values()].map(({ blogId, date }) => ({
+      updateOne: { filter: { blogId, date }, update: { $setOnInsert: { views: 0 } }, upsert: true },
+    })),
+    { ordered: false }
+  );
+  await BlogView.bulkWrite(
+    [...buckets.values()].map(({ blogId, date, views }) => ({
+      updateOne: {
+        filter: { blogId, date, flushes: { $ne: batchId } },
+        update: { $inc: { views }, $push: { flushes: { $each: [batchId], $slice: -RECENT_FLUSHES } } },
+      },
+    })),
+    { ordered: false }
+  );
+
+  // $max keeps a flush that read the buckets before a concurrent one from lowering the total
+  const blogIds = [...published.values()];
+  const totals = await BlogView.aggregate<{ _id: mongoose.Types.ObjectId; views: number }>([
+    { $match: { blogId: { $in: blogIds } } },
+    { $group: { _id: "$blogId", views: { $sum: "$views" } } },
+  ]);
+  await BlogPost.bulkWrite(
+    totals.map(({ _id, views }) => ({
+      updateOne: { filter: { _id }, update: { $max: { viewCount: views } } },
+    })),
+    { ordered: false }
+  );
+
+  return [...buckets.values()].reduce((sum, { views }) => sum + views, 0);
+};
+
+// Write a claimed batch and delete it. A failed batch is left in place, untouched, for a later
+// flush to reclaim once it is stale.
+const flushBatch = async (batchKey: string, batchId: string) => {
+  const batch = await redisClient.hGetAll(batchKey);
+  const written = await writeViewBatch(batchId, batch);
+  await redisClient.del(batchKey);
+  return written;
+};
+
+// Claim a batch by renaming it; false when another flush claimed it first
+const claimBatch = async (from: string, to: string) => {
+  try {
+    await redisClient.rename(from, to);
+    return true;
+  } catch (error) {
+    if (String(error).includes("no such key")) return false;
+    throw error;
+  }
+};
+
+// Move pending views into MongoDB and return how many were written. RENAME claims a batch atomically,
+// so concurrent flushes on several instances never take the same batch. Batches abandoned by a failed
+// write or a crash are reclaimed and retried under their original id.
+const flushViews = async () => {
+  let written = 0;
+
+  const batchId = uuidv4();
+  const batchKey = flushingKey(batchId);
+  if (await claimBatch(PENDING_KEY, batchKey)) written += await flushBatch(batchKey, batchId);
+
+  for await (const keys of redisClient.scanIterator({ MATCH: `${BATCH_PREFIX}*`, COUNT: 500 })) {
+    for (const key of keys) {
+      const [staleId = "", claimedAt] = key.slice(BATCH_PREFIX.length).split(":");
+      if (Date.now() - Number(claimedAt) < STALE_BATCH_MS) continue; // Still being written, or just failed
+
+      const reclaimedKey = flushingKey(staleId);
+      if (await claimBatch(key, reclaimedKey)) written += await flushBatch(reclaimedKey, staleId);
+    }
+  }
+
+  return written;
+};
+
+export { DAY_MS, utcDay, recordView, flushViews };
@@ -0,0 +1,65 @@
+import mongoose from "mongoose";
+import { BlogView } from "../models";
+import { DAY_MS, utcDay } from "./viewCounter";
+
+// Reporting windows, in days. Buckets are whole UTC days, so a window covers today so far plus
+// the N days before it.
+const VIEW_WINDOWS = { "1d": 1, "7d": 7, "30d": 30 } as const;
+type ViewWindow = keyof typeof VIEW_WINDOWS;
+
+type ViewRanking = "popular" | "trending";
+
+interface RankedBlog {
+  blogId: mongoose.Types.ObjectId;
+  views: number; // Views in the window
+  score: number; // Ranking score: views for popular, recency-weighted views for trending
+}
+
+// First day included in a window ending today
+const windowStart = (days: number) => utcDay(new Date(Date.parse(utcDay()) - days * DAY_MS));
+
+// Age in whole days of a bucket, 0 for today
+const ageInDays = (date: string) => Math.round((Date.parse(utcDay()) - Date.parse(date)) / DAY_MS);
+
+// Posts ranked by views in a window. Popular counts every day equally; trending halves the weight of
+// a day's views every third of the window (at least a day), so recent attention outranks old totals.
+const rankBlogsByViews = async (window: ViewWindow, ranking: ViewRanking): Promise<RankedBlog[]> => {
+  const days = VIEW_WINDOWS[window];
+  const halfLife = Math.max(1, days / 3);
+
+  const rows = await BlogView.aggregate<{
+    _id: mongoose.Types.ObjectId;
+    views: number;
+    daily: { date: string; views: number }[];
+  }>([
+    { $match: { date: { $gte: windowStart(days) } } },
+    { $group: { _id: "$blogId", views: { $sum: "$views" }, daily: { $push: { date: "$date", views: "$views" } } } },
+  ]);
+
+  return rows
+    .map(({ _id, views, daily }) => ({
+      blogId: _id,
+      views,
+      score:
+        ranking === "popular"
+          ? views
+          : daily.reduce((sum, day) => sum + day.views * Math.pow(0.5, ageInDays(day.date) / halfLife), 0),
+    }))
+    .sort((a, b) => b.score - a.score || b.views - a.views);
+};
+
+// Daily views of a post over the last `days` days, oldest first, with days without views as zero
+const blogViewSeries = async (blogId: mongoose.Types.ObjectId, days: number) => {
+  const since = windowStart(days - 1);
+  const buckets = await BlogView.find({ blogId, date: { $gte: since } })
+    .select("date views")
+    .lean();
+  const byDate = new Map(buckets.map((bucket) => [bucket.date, bucket.views]));
+
+  return Array.from({ length: days }, (_, index) => {
+    const date = utcDay(new Date(Date.parse(since) + index * DAY_MS));
+    return { date, views: byDate.get(date) ?? 0 };
+  });
+};
+
+export { VIEW_WINDOWS, ViewWindow, ViewRanking, RankedBlog, rankBlogsByViews, blogViewSeries };